@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI sources directly so the analyzer isn't built twice
+require('tsx/cjs/api').register();
+
+const { main } = require('../src/cli/index.ts');
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -7,6 +7,9 @@ const nextConfig: NextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  // browserslist's Node entry uses dynamic requires that can't be bundled for
+  // prerendering; the client bundle uses its browser build instead
+  serverExternalPackages: ['browserslist'],
   output: 'export',
   trailingSlash: true,
   images: {
@@ -0,0 +1,57 @@
+// Times analyzeCode on generated inputs of 1 to 5 MB, to check that analysis
+// time grows linearly with input size. Run with `npm run benchmark`.
+import { analyzeCode } from '../src/app/lib/analyzer';
+
+const megabyte = 1024 * 1024;
+const sizes = [1, 2, 3, 4, 5];
+// Time per MB at 5 MB may be at most this many times that at 1 MB
+const allowedSlowdown = 1.5;
+
+// Many matches per line: a block of modern syntax and APIs, each in its own scope
+const block = '{ const a = x?.y ?? 1; [1].at(-1); const f = async () => { await g(); }; class C { #p = 1; } }';
+
+const shapes: { name: string; generate: (bytes: number) => string }[] = [
+  {
+    // One arrow wrapping everything, so a snippet of the whole node range would copy the whole file
+    name: 'multi-line',
+    generate: bytes => `(() => {\n${`${block}\n`.repeat(Math.ceil(bytes / (block.length + 1)))}})();\n`
+  },
+  {
+    // A single line, as minified bundles are
+    name: 'minified',
+    generate: bytes => block.repeat(Math.ceil(bytes / block.length))
+  }
+];
+
+const time = async (code: string) => {
+  // Start each run without the previous run's garbage, when Node is run with --expose-gc
+  (globalThis as { gc?: () => void }).gc?.();
+  const started = performance.now();
+  const result = await analyzeCode(code);
+  return { ms: performance.now() - started, occurrences: result.features.reduce((total, feature) =>
+    total + feature.codeSnippets.length + (feature.omittedOccurrences ?? 0), 0) };
+};
+
+async function main() {
+  // Warm up the parser and caniuse data so the first size isn't penalised
+  await time(shapes[0].generate(megabyte / 4));
+
+  let linear = true;
+  for (const shape of shapes) {
+    console.log(`${shape.name}:`);
+    const perMegabyte: number[] = [];
+    for (const size of sizes) {
+      const { ms, occurrences } = await time(shape.generate(size * megabyte));
+      perMegabyte.push(ms / size);
+      console.log(`  ${size} MB  ${Math.round(ms).toString().padStart(6)} ms  ${Math.round(ms / size).toString().padStart(5)} ms/MB  ${occurrences} occurrences`);
+    }
+    const slowdown = perMegabyte[perMegabyte.length - 1] / perMegabyte[0];
+    console.log(`  ${sizes[sizes.length - 1]} MB vs ${sizes[0]} MB time per MB: ${slowdown.toFixed(2)}x`);
+    if (slowdown > allowedSlowdown) linear = false;
+  }
+
+  console.log(linear ? 'Analysis time is linear in input size' : `Analysis time grows faster than input size (over ${allowedSlowdown}x per MB)`);
+  process.exitCode = linear ? 0 : 1;
+}
+
+main();
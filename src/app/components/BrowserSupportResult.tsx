@@ -1,24 +1,65 @@
+import { browserDefinitions } from '../lib/browsers';
+import { cssFeatureNames } from '../lib/css';
+import { htmlFeatureNames } from '../lib/html';
+import { describeSupport, formatSupport, isFullySupported, isSupported, type SupportStatement } from '../lib/support';
+
 interface CodeSnippet {
+  file?: string;
   text: string;
+  textColumn?: number;
   startLine: number;
   matchLine: number;
   matchCol: number;
   matchLength: number;
   matchText: string;
+  guarded?: boolean;
+  generated?: {
+    file?: string;
+    line: number;
+    column: number;
+  };
+}
+
+interface Remediation {
+  strategy: 'transpile' | 'polyfill' | 'none';
+  module?: string;
+  notes?: string;
 }
 
 interface DetectedFeature {
   feature: string;
   description: string;
-  support: {
-    chrome: string;
-    firefox: string;
-    safari: string;
-    edge: string;
-    ie: string;
-  };
+  support: Record<string, SupportStatement>;
+  caniuseId?: string;
   notes?: string;
+  remediation?: Remediation;
   codeSnippets: CodeSnippet[];
+  omittedOccurrences?: number;
+  unsupportedTargets?: string[];
+  unknownTargets?: string[];
+  polyfilledBy?: string;
+  compiledBy?: string;
+  guarded?: boolean;
+  unavailableIn?: string[];
+}
+
+interface TargetEvaluation {
+  query: string;
+  browsers: string[];
+  passed: boolean;
+  failingFeatures: number;
+  unknownTargets: string[];
+}
+
+interface FeatureLocation {
+  file?: string;
+  line: number;
+  column: number;
+}
+
+interface MinimumVersionExplanation {
+  drivers: { id: string; feature: string; support: SupportStatement; locations: FeatureLocation[]; omittedOccurrences?: number }[];
+  reductions: { features: { id: string; feature: string }[]; minimum: SupportStatement }[];
 }
 
 interface AnalysisResult {
@@ -27,41 +68,76 @@ interface AnalysisResult {
     totalFeatures: number;
     modernFeatures: number;
     legacySupport: boolean;
+    polyfilledFeatures: number;
+    guardedFeatures: number;
+    unavailableFeatures: number;
   };
-  minimumVersions: {
-    chrome: string;
-    firefox: string;
-    safari: string;
-    edge: string;
-    ie: string;
-  };
+  runtime: 'browser' | 'server';
+  browsers: string[];
+  minimumVersions: Record<string, SupportStatement>;
+  minimumVersionReasons: Record<string, MinimumVersionExplanation>;
+  caniuseVersion: string;
+  targets?: TargetEvaluation;
+  language?: 'javascript' | 'css' | 'html';
+  parseErrors?: { line: number; column: number; message: string }[];
+}
+
+interface AnalysisProgress {
+  phase: 'parse' | 'traverse' | 'aggregate';
+  completed?: number;
 }
 
 interface BrowserSupportResultProps {
+  // While loading, the features found so far
   analysis: AnalysisResult | null;
   loading: boolean;
+  progress?: AnalysisProgress | null;
 }
 
-const browserIcons = {
-  chrome: '🟢',
-  firefox: '🟠', 
-  safari: '🔵',
-  edge: '🟦',
-  ie: '🟪'
+const remediationLabels = {
+  transpile: '🔧 Transpile',
+  polyfill: '🩹 Polyfill',
+  none: '⛔ Can\'t be polyfilled'
+};
+
+const phaseLabels = {
+  parse: 'Parsing',
+  traverse: 'Finding features',
+  aggregate: 'Working out minimum versions'
 };
 
-const browserNames = {
-  chrome: 'Chrome',
-  firefox: 'Firefox',
-  safari: 'Safari',
-  edge: 'Edge',
-  ie: 'Internet Explorer'
+// The phase, with a bar for how far the traversal is through the code
+function ProgressBar({ progress }: { progress?: AnalysisProgress | null }) {
+  const percent = progress?.completed !== undefined ? Math.round(progress.completed * 100) : null;
+  return (
+    <div>
+      <div className="flex justify-between text-sm text-gray-300 mb-2">
+        <span>{progress ? phaseLabels[progress.phase] : 'Starting'}&hellip;</span>
+        {percent !== null && <span>{percent}%</span>}
+      </div>
+      <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-blue-500 transition-all duration-200 ${percent === null ? 'animate-pulse' : ''}`}
+          style={{ width: `${percent ?? 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+const languageNames = {
+  javascript: 'JavaScript',
+  css: 'CSS',
+  html: 'HTML'
 };
 
-export default function BrowserSupportResult({ analysis, loading }: BrowserSupportResultProps) {
-  if (loading) {
+export default function BrowserSupportResult({ analysis, loading, progress }: BrowserSupportResultProps) {
+  if (loading && !analysis) {
     return (
       <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
+        <div className="mb-6">
+          <ProgressBar progress={progress} />
+        </div>
         <div className="animate-pulse">
           <div className="h-6 bg-gray-600 rounded w-3/4 mb-4"></div>
           <div className="space-y-3">
@@ -84,24 +160,33 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
             </svg>
           </div>
           <h3 className="text-lg font-medium text-white mb-2">Ready to Analyze</h3>
-          <p className="text-gray-300">Paste your JavaScript code and click &ldquo;Analyze Browser Support&rdquo; to see compatibility information.</p>
+          <p className="text-gray-300">Paste your JavaScript, CSS or HTML code and click &ldquo;Analyze Browser Support&rdquo; to see compatibility information.</p>
         </div>
       </div>
     );
   }
 
-  const getSupportColor = (support: string) => {
-    if (support === 'No') return 'text-red-300 bg-red-600/20 border border-red-500/30';
-    if (support.includes('*')) return 'text-yellow-300 bg-yellow-600/20 border border-yellow-500/30';
+  const getSupportColor = (support: SupportStatement) => {
+    if (support.any) return 'text-gray-300 bg-gray-600/20 border border-gray-500/30';
+    if (support.added === null && support.flag) return 'text-orange-300 bg-orange-600/20 border border-orange-500/30';
+    if (!isSupported(support)) return 'text-red-300 bg-red-600/20 border border-red-500/30';
+    if (support.partial) return 'text-yellow-300 bg-yellow-600/20 border border-yellow-500/30';
+    if (support.prefix) return 'text-blue-300 bg-blue-600/20 border border-blue-500/30';
     return 'text-green-300 bg-green-600/20 border border-green-500/30';
   };
 
+  // Support in the browsers chosen for the results
+  const selectedSupport = (feature: DetectedFeature) => analysis.browsers.map(browser => feature.support[browser]);
+
   const getOverallScore = () => {
-    const totalFeatures = analysis.features.length;
+    // Features used only behind feature detection don't affect compatibility
+    const scoredFeatures = analysis.features.filter(feature => !feature.guarded);
+    const totalFeatures = scoredFeatures.length;
     if (totalFeatures === 0) return 100;
     
-    const supportedFeatures = analysis.features.filter(feature => 
-      Object.values(feature.support).every(support => support !== 'No')
+    // As in the minimum versions, polyfilled and compiled features work without native support
+    const supportedFeatures = scoredFeatures.filter(feature => 
+      feature.polyfilledBy || feature.compiledBy || selectedSupport(feature).every(isSupported)
     ).length;
     
     return Math.round((supportedFeatures / totalFeatures) * 100);
@@ -111,18 +196,20 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
 
   const getFeatureCategories = () => {
     const categories = {
-      syntax: ['Arrow Functions', 'Classes', 'Template Literals', 'Destructuring Assignment', 'Spread Operator', 'Const Declaration', 'Let Declaration', 'Default Parameters', 'Rest Parameters', 'Generator Functions', 'Private Class Fields', 'Static Class Fields', 'Private Class Methods', 'Decorators', 'Hashbang Grammar'],
-      methods: ['Array.from()', 'Array.fromAsync()', 'Array.find()', 'Array.findIndex()', 'Array.findLast()', 'Array.findLastIndex()', 'Array.includes()', 'Array.flat()', 'Array.flatMap()', 'Array.at()', 'Array.toReversed()', 'Array.toSorted()', 'Array.toSpliced()', 'Array.with()', 'TypedArray.at()', 'TypedArray.with()', 'Object.assign()', 'Object.keys()', 'Object.values()', 'Object.entries()', 'Object.fromEntries()', 'Object.hasOwn()', 'Object.groupBy()', 'String.includes()', 'String.startsWith()', 'String.endsWith()', 'String.repeat()', 'String.padStart()', 'String.padEnd()', 'String.replaceAll()', 'String.at()', 'String.matchAll()', 'String.trimStart()', 'String.trimEnd()', 'String.isWellFormed()', 'String.toWellFormed()', 'structuredClone()', 'queueMicrotask()', 'reportError()'],
-      async: ['Async/Await', 'Promises', 'Promise.allSettled()', 'Promise.any()', 'Top-level Await', 'Async Iteration'],
+      syntax: ['Arrow Functions', 'Classes', 'Template Literals', 'Destructuring Assignment', 'Spread Operator', 'Const Declaration', 'Let Declaration', 'Default Parameters', 'Rest Parameters', 'Generator Functions', 'Private Class Fields', 'Public Class Fields', 'Static Class Fields', 'Private Class Methods', 'Decorators', 'Explicit Resource Management', 'Hashbang Grammar'],
+      methods: ['Array.from()', 'Array.fromAsync()', 'Array.find()', 'Array.findIndex()', 'Array.findLast()', 'Array.findLastIndex()', 'Array.includes()', 'Array.flat()', 'Array.flatMap()', 'Array.at()', 'Array.toReversed()', 'Array.toSorted()', 'Array.toSpliced()', 'Array.with()', 'TypedArray.at()', 'TypedArray.with()', 'Object.assign()', 'Object.keys()', 'Object.values()', 'Object.entries()', 'Object.fromEntries()', 'Object.hasOwn()', 'Object.groupBy()', 'String.includes()', 'String.startsWith()', 'String.endsWith()', 'String.repeat()', 'String.padStart()', 'String.padEnd()', 'String.replaceAll()', 'String.at()', 'String.matchAll()', 'String.trimStart()', 'String.trimEnd()', 'String.isWellFormed()', 'String.toWellFormed()', 'Iterator.from()', 'RegExp.escape()', 'Math.sumPrecise()', 'structuredClone()', 'queueMicrotask()', 'reportError()'],
+      async: ['Async/Await', 'Promises', 'Promise.allSettled()', 'Promise.any()', 'Promise.withResolvers()', 'Top-level Await', 'Async Iteration'],
       modules: ['ES6 Modules (import)', 'ES6 Modules (export)', 'Dynamic Import', 'import.meta', 'Import Assertions', 'Import Attributes'],
       advanced: ['Optional Chaining', 'Nullish Coalescing', 'BigInt', 'Logical Assignment', 'Numeric Separators', 'globalThis', 'Iterator Helpers'],
-      dataStructures: ['Map Object', 'Set Object', 'WeakMap', 'WeakSet', 'WeakRef', 'FinalizationRegistry', 'Symbol', 'Proxy', 'Reflect', 'SharedArrayBuffer', 'BigInt64Array', 'BigUint64Array', 'Resizable ArrayBuffer'],
+      dataStructures: ['Map Object', 'Set Object', 'Set Methods', 'WeakMap', 'WeakSet', 'WeakRef', 'FinalizationRegistry', 'Symbol', 'Proxy', 'Reflect', 'SharedArrayBuffer', 'BigInt64Array', 'BigUint64Array', 'Float16Array', 'Resizable ArrayBuffer'],
       regex: ['RegExp Named Capture Groups', 'RegExp Lookbehind Assertions', 'RegExp Unicode Property Escapes', 'RegExp dotAll Flag', 'RegExp Match Indices', 'RegExp v Flag'],
       intl: ['Intl.RelativeTimeFormat', 'Intl.ListFormat'],
-      error: ['Error.cause', 'AggregateError'],
+      error: ['Error.cause', 'AggregateError', 'Error.isError()'],
       concurrency: ['Atomics', 'SharedArrayBuffer'],
-      webApis: ['Fetch API', 'URLSearchParams', 'URL Constructor', 'AbortController', 'IntersectionObserver', 'MutationObserver', 'ResizeObserver', 'performance.now()', 'crypto.getRandomValues()', 'crypto.randomUUID()', 'localStorage', 'sessionStorage', 'IndexedDB'],
-      experimental: ['Temporal API', 'Decorators', 'Iterator Helpers']
+      webApis: ['Fetch API', 'URLSearchParams', 'URL Constructor', 'AbortController', 'IntersectionObserver', 'MutationObserver', 'ResizeObserver', 'performance.now()', 'crypto.getRandomValues()', 'crypto.randomUUID()', 'localStorage', 'sessionStorage', 'IndexedDB', 'WebSocket', 'EventSource', 'navigator.sendBeacon()', 'Cache API', 'Streams API', 'TransformStream', 'CompressionStream', 'fetch() keepalive', 'fetch() priority', 'navigator.storage.estimate()', 'navigator.storage.persist()', 'Storage Buckets API'],
+      experimental: ['Temporal API', 'Decorators', 'Explicit Resource Management', 'Error.isError()', 'Math.sumPrecise()', 'Storage Buckets API'],
+      css: cssFeatureNames,
+      html: htmlFeatureNames
     };
 
     const counts = {
@@ -137,7 +224,9 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
       error: 0,
       concurrency: 0,
       webApis: 0,
-      experimental: 0
+      experimental: 0,
+      css: 0,
+      html: 0
     };
 
     analysis.features.forEach(feature => {
@@ -155,9 +244,30 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
 
   return (
     <div className="space-y-6">
+      {loading && (
+        <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-4">
+          <ProgressBar progress={progress} />
+          <p className="text-xs text-gray-400 mt-2">Showing the features found so far</p>
+        </div>
+      )}
+
+      {analysis.parseErrors && analysis.parseErrors.length > 0 && (
+        <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-4 text-sm text-yellow-200">
+          The code has {analysis.parseErrors.length} syntax error{analysis.parseErrors.length === 1 ? '' : 's'}, marked in the
+          input. Features used where parsing failed aren&apos;t included.
+        </div>
+      )}
+
       {/* Summary Card */}
       <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
-        <h2 className="text-xl font-semibold text-white mb-4">Browser Support Summary</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-white">Browser Support Summary</h2>
+          {analysis.language && (
+            <span className="text-xs px-2 py-1 rounded bg-gray-700 text-gray-300">
+              Analyzed as {languageNames[analysis.language]}
+            </span>
+          )}
+        </div>
         
         <div className="grid grid-cols-3 gap-4 mb-6">
           <div className="text-center">
@@ -251,6 +361,18 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
                   <span className="font-semibold">{featureCategories.experimental}</span>
                 </div>
               )}
+              {featureCategories.css > 0 && (
+                <div className="flex justify-between p-2 bg-sky-600/20 border border-sky-500/30 rounded text-sky-300">
+                  <span>CSS</span>
+                  <span className="font-semibold">{featureCategories.css}</span>
+                </div>
+              )}
+              {featureCategories.html > 0 && (
+                <div className="flex justify-between p-2 bg-rose-600/20 border border-rose-500/30 rounded text-rose-300">
+                  <span>HTML</span>
+                  <span className="font-semibold">{featureCategories.html}</span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -275,24 +397,67 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
         </div>
       </div>
 
+      {/* Target Compliance */}
+      {analysis.targets && (
+        <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
+          <h3 className="text-lg font-semibold text-white mb-2">Target Browsers</h3>
+          <p className="text-xs font-mono text-gray-400 mb-4">{analysis.targets.query}</p>
+          <div className={`text-sm p-3 rounded-lg border mb-4 ${analysis.targets.passed ? 'bg-green-600/20 border-green-500/30 text-green-300' : 'bg-red-600/20 border-red-500/30 text-red-300'}`}>
+            {analysis.targets.passed
+              ? analysis.targets.unknownTargets.length > 0
+                ? `✅ Every detected feature is supported by the ${analysis.targets.browsers.length - analysis.targets.unknownTargets.length} target browsers with support data`
+                : `✅ Every detected feature is supported by all ${analysis.targets.browsers.length} target browsers`
+              : `❌ ${analysis.targets.failingFeatures} of ${analysis.features.length} features are missing in at least one target browser`
+            }
+          </div>
+          {analysis.targets.unknownTargets.length > 0 && (
+            <p className="text-xs text-gray-400 mb-4">
+              No support data for some features in: <span className="font-mono">{analysis.targets.unknownTargets.join(', ')}</span>
+            </p>
+          )}
+          {!analysis.targets.passed && (
+            <div className="space-y-2">
+              {analysis.features
+                .filter(feature => feature.unsupportedTargets && feature.unsupportedTargets.length > 0)
+                .map((feature, index) => (
+                  <div key={index} className="text-sm">
+                    <span className="font-medium text-white">{feature.feature}</span>
+                    <span className="text-gray-400"> — missing in </span>
+                    <span className="font-mono text-xs text-red-300">{feature.unsupportedTargets!.join(', ')}</span>
+                  </div>
+                ))}
+            </div>
+          )}
+          <details className="mt-4 text-xs text-gray-400">
+            <summary className="cursor-pointer">{analysis.targets.browsers.length} browsers in query</summary>
+            <p className="mt-2 font-mono">{analysis.targets.browsers.join(', ')}</p>
+          </details>
+        </div>
+      )}
+
       {/* Compact Features Summary */}
       {analysis.features.length > 0 && (
         <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
           <h3 className="text-lg font-semibold text-white mb-4">Detected Features Summary</h3>
           <div className="flex flex-wrap gap-2">
             {analysis.features.map((feature, index) => {
-              const hasIssues = feature.support.ie === 'No' || Object.values(feature.support).some(support => support.includes('*'));
+              const hasIssues = !feature.polyfilledBy && !feature.guarded && selectedSupport(feature).some(support => !isFullySupported(support));
               return (
                 <span
                   key={index}
                   className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium border ${
-                    hasIssues 
+                    feature.unavailableIn
+                      ? 'bg-red-600/20 text-red-300 border-red-500/30'
+                      : hasIssues 
                       ? 'bg-yellow-600/20 text-yellow-300 border-yellow-500/30' 
                       : 'bg-green-600/20 text-green-300 border-green-500/30'
                   }`}
                   title={feature.description}
                 >
-                  {hasIssues && <span className="mr-1">⚠️</span>}
+                  {feature.unavailableIn && <span className="mr-1">⛔</span>}
+                  {hasIssues && !feature.unavailableIn && <span className="mr-1">⚠️</span>}
+                  {feature.polyfilledBy && <span className="mr-1">🩹</span>}
+                  {feature.guarded && !feature.polyfilledBy && <span className="mr-1">🛡️</span>}
                   {feature.feature}
                 </span>
               );
@@ -307,30 +472,83 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
               <span className="w-2 h-2 bg-yellow-500 rounded-full mr-1"></span>
               Modern browsers only
             </span>
+            {analysis.summary.polyfilledFeatures > 0 && (
+              <span className="inline-flex items-center ml-4">
+                <span className="mr-1">🩹</span>
+                Polyfilled
+              </span>
+            )}
+            {analysis.summary.guardedFeatures > 0 && (
+              <span className="inline-flex items-center ml-4">
+                <span className="mr-1">🛡️</span>
+                Feature-detected
+              </span>
+            )}
+            {analysis.summary.unavailableFeatures > 0 && (
+              <span className="inline-flex items-center ml-4">
+                <span className="mr-1">⛔</span>
+                Unavailable on the server
+              </span>
+            )}
           </div>
         </div>
       )}
 
       {/* Minimum Browser Versions Required */}
       <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
-        <h3 className="text-lg font-semibold text-white mb-4">Minimum Browser Versions Required</h3>
+        <h3 className="text-lg font-semibold text-white mb-4">
+          {analysis.runtime === 'server' ? 'Minimum Runtime Versions Required' : 'Minimum Browser Versions Required'}
+        </h3>
         <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
-          {Object.entries(analysis.minimumVersions).map(([browser, version]) => (
+          {analysis.browsers.map(browser => (
             <div key={browser} className="text-center">
               <div className="text-2xl mb-2">
-                {browserIcons[browser as keyof typeof browserIcons]}
+                {browserDefinitions[browser]?.icon}
               </div>
               <div className="text-sm font-medium text-gray-300 mb-1">
-                {browserNames[browser as keyof typeof browserNames]}
+                {browserDefinitions[browser]?.name ?? browser}
               </div>
-              <div className={`text-sm px-2 py-1 rounded font-semibold ${getSupportColor(version)}`}>
-                {version}
+              <div
+                className={`text-sm px-2 py-1 rounded font-semibold ${getSupportColor(analysis.minimumVersions[browser])}`}
+                title={describeSupport(analysis.minimumVersions[browser])}
+              >
+                {formatSupport(analysis.minimumVersions[browser])}
               </div>
+              {analysis.minimumVersionReasons[browser]?.drivers.length > 0 && (
+                <div className="text-xs text-gray-400 mt-1">
+                  Set by {analysis.minimumVersionReasons[browser].drivers.map(driver =>
+                    `${driver.feature} (line ${Array.from(new Set(driver.locations.map(location => location.line))).join(', ')}${driver.omittedOccurrences ? ` and ${driver.omittedOccurrences} more` : ''})`
+                  ).join(', ')}
+                </div>
+              )}
             </div>
           ))}
         </div>
+        {analysis.browsers.some(browser => analysis.minimumVersionReasons[browser]?.reductions.length > 0) && (
+          <div className="mt-4 space-y-2">
+            <h4 className="text-sm font-medium text-gray-300">Lowering the minimum</h4>
+            {analysis.browsers
+              .filter(browser => analysis.minimumVersionReasons[browser]?.reductions.length > 0)
+              .map(browser => (
+                <div key={browser} className="text-xs text-gray-400">
+                  <span className="text-gray-300">{browserDefinitions[browser]?.name ?? browser}:</span>
+                  {analysis.minimumVersionReasons[browser].reductions.map((step, index) => (
+                    <span key={index}>
+                      {index === 0 ? ' without ' : '; also without '}
+                      <span className="text-white">{step.features.map(feature => feature.feature).join(', ')}</span>
+                      {' → '}
+                      <span className={`px-1 rounded ${getSupportColor(step.minimum)}`}>{formatSupport(step.minimum)}</span>
+                    </span>
+                  ))}
+                </div>
+              ))}
+          </div>
+        )}
         <div className="mt-4 text-xs text-gray-500">
-          These are the minimum browser versions you need to target to support ALL JavaScript features in your code. This represents the furthest back you can go while maintaining full compatibility.
+          These are the minimum {analysis.runtime === 'server' ? 'runtime' : 'browser'} versions you need to target to support ALL features in your code. This represents the furthest back you can go while maintaining full compatibility.
+          {analysis.summary.polyfilledFeatures > 0 && ` ${analysis.summary.polyfilledFeatures} polyfilled feature(s) are not counted.`}
+          {analysis.summary.guardedFeatures > 0 && ` ${analysis.summary.guardedFeatures} feature(s) used only behind feature detection are not counted.`}
+          {analysis.summary.unavailableFeatures > 0 && ` ${analysis.summary.unavailableFeatures} feature(s) aren't available on the server at any version.`}
         </div>
       </div>
 
@@ -344,11 +562,49 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
               <div key={index} className="border border-gray-600 bg-gray-800/30 rounded-lg p-4">
                 <div className="flex justify-between items-start mb-3">
                   <div>
-                    <h4 className="font-semibold text-white">{feature.feature}</h4>
+                    <h4 className="font-semibold text-white">
+                      {feature.feature}
+                      {feature.caniuseId && (
+                        <a
+                          href={`https://caniuse.com/${feature.caniuseId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-2 text-xs font-normal text-blue-400 hover:text-blue-300 underline"
+                        >
+                          caniuse
+                        </a>
+                      )}
+                    </h4>
                     <p className="text-sm text-gray-300">{feature.description}</p>
                     {feature.notes && (
                       <p className="text-xs text-yellow-400 mt-1">⚠️ {feature.notes}</p>
                     )}
+                    {feature.remediation && !feature.polyfilledBy && (
+                      <p className="text-xs text-blue-300 mt-1">
+                        {remediationLabels[feature.remediation.strategy]}
+                        {feature.remediation.module && <> with <span className="font-mono">{feature.remediation.module}</span></>}
+                        {feature.remediation.notes && <span className="text-gray-400"> — {feature.remediation.notes}</span>}
+                      </p>
+                    )}
+                    {feature.unavailableIn && (
+                      <p className="text-xs text-red-300 mt-1">
+                        ⛔ Not available in {feature.unavailableIn.map(browser => browserDefinitions[browser]?.name ?? browser).join(', ')}, so it needs a browser or a server-side replacement
+                      </p>
+                    )}
+                    {feature.guarded && (
+                      <p className="text-xs text-green-300 mt-1">🛡️ Only used behind feature detection, so browsers without it skip that code</p>
+                    )}
+                    {feature.polyfilledBy && (
+                      <p className="text-xs text-green-300 mt-1">
+                        🩹 Polyfilled {feature.polyfilledBy === 'configuration' ? 'by configuration' : <>by <span className="font-mono">{feature.polyfilledBy}</span></>}
+                      </p>
+                    )}
+                    {feature.unsupportedTargets && feature.unsupportedTargets.length > 0 && (
+                      <p className="text-xs text-red-300 mt-1">❌ Not supported by targets: {feature.unsupportedTargets.join(', ')}</p>
+                    )}
+                    {feature.unknownTargets && feature.unknownTargets.length > 0 && (
+                      <p className="text-xs text-gray-400 mt-1">No support data for targets: {feature.unknownTargets.join(', ')}</p>
+                    )}
                     {feature.codeSnippets && feature.codeSnippets.length > 0 && (
                       <div className="mt-2">
                         <p className="text-xs text-gray-400 mb-1">Found in code:</p>
@@ -356,12 +612,20 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
                           {feature.codeSnippets.slice(0, 3).map((snippet, snippetIndex) => (
                             <div key={snippetIndex} className="bg-gray-900/50 border border-gray-600 rounded text-xs font-mono overflow-x-auto">
                               <div className="bg-gray-700/50 px-2 py-1 text-gray-300 border-b border-gray-600">
-                                Match on line {snippet.matchLine}: <span className="font-semibold text-blue-400">{snippet.matchText}</span>
+                                Match {snippet.file && <>in <span className="text-gray-100">{snippet.file}</span> </>}on line {snippet.matchLine}: <span className="font-semibold text-blue-400">{snippet.matchText}</span>
+                                {snippet.guarded && (
+                                  <span className="ml-2 px-1.5 py-0.5 rounded bg-green-600/20 border border-green-500/30 text-green-300 font-sans">guarded</span>
+                                )}
+                                {snippet.generated && (
+                                  <span className="text-gray-500"> (built code {snippet.generated.file ? `${snippet.generated.file}:` : 'line '}{snippet.generated.line}:{snippet.generated.column + 1})</span>
+                                )}
                               </div>
                               <div className="p-2">
                                 {snippet.text.split('\n').map((line, lineIndex) => {
                                   const lineNumber = snippet.startLine + lineIndex;
                                   const isMatchLine = lineNumber === snippet.matchLine;
+                                  // Long lines are cut to a window starting at textColumn
+                                  const matchStart = snippet.matchCol - (snippet.textColumn ?? 0);
                                   
                                   return (
                                     <div key={lineIndex} className={`flex ${isMatchLine ? 'bg-yellow-900/30' : ''}`}>
@@ -371,11 +635,11 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
                                       <span className="flex-1 text-gray-200">
                                         {isMatchLine ? (
                                           <span>
-                                            {line.substring(0, snippet.matchCol)}
+                                            {line.substring(0, matchStart)}
                                             <span className="bg-yellow-500 text-black px-1 rounded">
-                                              {line.substring(snippet.matchCol, snippet.matchCol + snippet.matchLength)}
+                                              {line.substring(matchStart, matchStart + snippet.matchLength)}
                                             </span>
-                                            {line.substring(snippet.matchCol + snippet.matchLength)}
+                                            {line.substring(matchStart + snippet.matchLength)}
                                           </span>
                                         ) : (
                                           line
@@ -387,8 +651,8 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
                               </div>
                             </div>
                           ))}
-                          {feature.codeSnippets.length > 3 && (
-                            <p className="text-xs text-gray-400">+ {feature.codeSnippets.length - 3} more occurrences</p>
+                          {feature.codeSnippets.length + (feature.omittedOccurrences ?? 0) > 3 && (
+                            <p className="text-xs text-gray-400">+ {feature.codeSnippets.length + (feature.omittedOccurrences ?? 0) - 3} more occurrences</p>
                           )}
                         </div>
                       </div>
@@ -397,16 +661,19 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
                 </div>
                 
                 <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
-                  {Object.entries(feature.support).map(([browser, support]) => (
+                  {analysis.browsers.map(browser => (
                     <div key={browser} className="text-center">
                       <div className="text-lg mb-1">
-                        {browserIcons[browser as keyof typeof browserIcons]}
+                        {browserDefinitions[browser]?.icon}
                       </div>
                       <div className="text-xs font-medium text-gray-300 mb-1">
-                        {browserNames[browser as keyof typeof browserNames]}
+                        {browserDefinitions[browser]?.name ?? browser}
                       </div>
-                      <div className={`text-xs px-2 py-1 rounded ${getSupportColor(support)}`}>
-                        {support}
+                      <div
+                        className={`text-xs px-2 py-1 rounded ${getSupportColor(feature.support[browser])}`}
+                        title={describeSupport(feature.support[browser])}
+                      >
+                        {formatSupport(feature.support[browser])}
                       </div>
                     </div>
                   ))}
@@ -420,20 +687,31 @@ export default function BrowserSupportResult({ analysis, loading }: BrowserSuppo
       {/* Legend */}
       <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
         <h3 className="text-lg font-semibold text-white mb-4">Legend</h3>
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+        <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-5 gap-4 text-sm">
           <div className="flex items-center text-gray-300">
             <div className="w-3 h-3 bg-green-500 rounded mr-2"></div>
             <span>Full Support</span>
           </div>
           <div className="flex items-center text-gray-300">
             <div className="w-3 h-3 bg-yellow-500 rounded mr-2"></div>
-            <span>Partial Support (*)</span>
+            <span>Partial Support</span>
+          </div>
+          <div className="flex items-center text-gray-300">
+            <div className="w-3 h-3 bg-blue-500 rounded mr-2"></div>
+            <span>Needs Vendor Prefix</span>
+          </div>
+          <div className="flex items-center text-gray-300">
+            <div className="w-3 h-3 bg-orange-500 rounded mr-2"></div>
+            <span>Behind a Flag</span>
           </div>
           <div className="flex items-center text-gray-300">
             <div className="w-3 h-3 bg-red-500 rounded mr-2"></div>
-            <span>No Support</span>
+            <span>No Support or Removed</span>
           </div>
         </div>
+        <div className="mt-4 text-xs text-gray-500">
+          Support data generated from caniuse-lite {analysis.caniuseVersion}; features caniuse doesn&apos;t track use curated fallback data. Hover a version for partial support reasons and notes.
+        </div>
       </div>
     </div>
   );
@@ -1,12 +1,81 @@
+import { useRef } from 'react';
+import { allBrowsers, browserDefinitions } from '../lib/browsers';
+import type { ParseError } from '../lib/diagnostics';
+import { detectLanguage } from '../lib/source';
+
+type Language = 'auto' | 'javascript' | 'css' | 'html';
+type Runtime = 'browser' | 'server';
+
 interface CodeInputProps {
   code: string;
   onChange: (code: string) => void;
+  // Syntax errors in the code, marked in the editor
+  parseErrors: ParseError[];
+  targets: string;
+  onTargetsChange: (targets: string) => void;
+  polyfills: string;
+  onPolyfillsChange: (polyfills: string) => void;
+  browsers: string[];
+  onBrowsersChange: (browsers: string[]) => void;
+  runtime: Runtime;
+  onRuntimeChange: (runtime: Runtime) => void;
+  language: Language;
+  onLanguageChange: (language: Language) => void;
+  sourceMapName: string | null;
+  onSourceMapChange: (sourceMap: { name: string; content: string } | null) => void;
+  timeoutSeconds: number;
+  onTimeoutSecondsChange: (seconds: number) => void;
   onAnalyze: () => void;
+  onCancel: () => void;
   onClear: () => void;
   loading: boolean;
 }
 
-export default function CodeInput({ code, onChange, onAnalyze, onClear, loading }: CodeInputProps) {
+export default function CodeInput({ code, onChange, parseErrors, targets, onTargetsChange, polyfills, onPolyfillsChange, browsers, onBrowsersChange, runtime, onRuntimeChange, language, onLanguageChange, sourceMapName, onSourceMapChange, timeoutSeconds, onTimeoutSecondsChange, onAnalyze, onCancel, onClear, loading }: CodeInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  // An error is marked from where it is to the end of its line
+  const errorRange = (error: ParseError) => {
+    const start = Math.min(error.offset, code.length);
+    const lineEnd = code.indexOf('\n', start);
+    return { start, end: lineEnd === -1 ? code.length : lineEnd };
+  };
+
+  // The code with its errors marked, drawn over the textarea with the text itself transparent
+  const markedCode = () => {
+    const segments: React.ReactNode[] = [];
+    let position = 0;
+    [...parseErrors].sort((a, b) => a.offset - b.offset).forEach((error, index) => {
+      const { start, end } = errorRange(error);
+      if (start < position) return;
+      segments.push(code.slice(position, start));
+      // An error at the end of a line still gets a mark the width of a character
+      segments.push(
+        <mark key={index} className="bg-red-500/30 text-transparent rounded-sm">
+          {end > start ? code.slice(start, end) : ' '}
+        </mark>
+      );
+      position = end;
+    });
+    segments.push(code.slice(position));
+    return segments;
+  };
+
+  const selectError = (error: ParseError) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { start, end } = errorRange(error);
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+  };
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (!backdropRef.current) return;
+    backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+    backdropRef.current.scrollLeft = e.currentTarget.scrollLeft;
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.ctrlKey && e.key === 'Enter') {
       e.preventDefault();
@@ -14,6 +83,14 @@ export default function CodeInput({ code, onChange, onAnalyze, onClear, loading
     }
   };
 
+  // Keeps the browsers in display order, and at least one of them selected
+  const toggleBrowser = (browser: string) => {
+    const selected = browsers.includes(browser)
+      ? browsers.filter(selectedBrowser => selectedBrowser !== browser)
+      : [...browsers, browser];
+    if (selected.length > 0) onBrowsersChange(allBrowsers.filter(id => selected.includes(id)));
+  };
+
   const exampleCode = `// Comprehensive JavaScript Features Demo
 import { fetchData } from './api.js';
 export { UserManager as default };
@@ -92,37 +169,212 @@ const createProxy = (target) => new Proxy(target, {
   set: Reflect.set
 });`;
 
+  const exampleCss = `/* Modern CSS Features Demo */
+@layer reset, components;
+
+.card {
+  container-type: inline-size;
+  min-height: 100dvh;
+  padding-inline: clamp(1rem, 5cqi, 3rem);
+  background: color-mix(in oklch, var(--brand) 80%, white);
+
+  &:has(> img) {
+    display: grid;
+    grid-template-rows: subgrid;
+  }
+}
+
+@container (width >= 40rem) {
+  .card__title {
+    text-wrap: balance;
+  }
+}`;
+
   const insertExample = () => {
-    onChange(exampleCode);
+    onChange(language === 'css' ? exampleCss : exampleCode);
+  };
+
+  // Uploaded files are analyzed as the language their extension names; a .map
+  // file is kept as the source map for the code in the editor
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    if (file.name.endsWith('.map')) {
+      onSourceMapChange({ name: file.name, content: text });
+      return;
+    }
+    onChange(text);
+    onLanguageChange(detectLanguage(text, file.name));
   };
 
   return (
     <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-xl font-semibold text-white">JavaScript Code</h2>
-        <button
-          onClick={insertExample}
-          className="text-sm text-blue-400 hover:text-blue-300 underline transition-colors"
-        >
-          Insert Example
-        </button>
+        <h2 className="text-xl font-semibold text-white">Code</h2>
+        <div className="flex items-center gap-4">
+          <select
+            value={language}
+            onChange={(e) => onLanguageChange(e.target.value as Language)}
+            aria-label="Language"
+            className="px-2 py-1 border border-gray-600 bg-gray-900 text-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="auto">Auto-detect</option>
+            <option value="javascript">JavaScript</option>
+            <option value="css">CSS</option>
+            <option value="html">HTML</option>
+          </select>
+          <select
+            value={runtime}
+            onChange={(e) => onRuntimeChange(e.target.value as Runtime)}
+            aria-label="Runtime"
+            className="px-2 py-1 border border-gray-600 bg-gray-900 text-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="browser">Browser</option>
+            <option value="server">Server</option>
+          </select>
+          <label className="text-sm text-blue-400 hover:text-blue-300 underline transition-colors cursor-pointer">
+            Upload File
+            <input
+              type="file"
+              accept=".js,.mjs,.cjs,.jsx,.ts,.mts,.cts,.tsx,.css,.html,.htm,.map"
+              onChange={handleUpload}
+              className="hidden"
+            />
+          </label>
+          <button
+            onClick={insertExample}
+            className="text-sm text-blue-400 hover:text-blue-300 underline transition-colors"
+          >
+            Insert Example
+          </button>
+        </div>
       </div>
       
       <div className="space-y-4">
         <div className="relative">
           <textarea
+            ref={textareaRef}
             value={code}
             onChange={(e) => onChange(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Paste your JavaScript code here..."
-            className="w-full h-64 p-4 border border-gray-600 bg-gray-900 text-gray-100 rounded-lg font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent placeholder-gray-400"
+            onScroll={syncScroll}
+            placeholder="Paste your JavaScript, CSS or HTML code here..."
+            className="block w-full h-64 p-4 border border-gray-600 bg-gray-900 text-gray-100 rounded-lg font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent placeholder-gray-400"
             spellCheck={false}
           />
+          {parseErrors.length > 0 && (
+            <div
+              ref={backdropRef}
+              aria-hidden="true"
+              className="absolute inset-0 p-4 border border-transparent rounded-lg font-mono text-sm text-transparent whitespace-pre-wrap break-words overflow-hidden pointer-events-none"
+            >
+              {markedCode()}
+            </div>
+          )}
           <div className="absolute bottom-2 right-2 text-xs text-gray-500">
             Ctrl+Enter to analyze
           </div>
         </div>
+
+        {parseErrors.length > 0 && (
+          <ul className="space-y-2 text-xs">
+            {parseErrors.map((error, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => selectError(error)}
+                  className="text-left text-red-300 hover:text-red-200 transition-colors"
+                >
+                  <span className="font-mono text-red-400">{error.line}:{error.column}</span> {error.message}
+                </button>
+                {error.hint && <p className="text-gray-400 mt-0.5">{error.hint}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {sourceMapName && (
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>Source map: <span className="font-mono text-gray-300">{sourceMapName}</span></span>
+            <button
+              onClick={() => onSourceMapChange(null)}
+              className="text-blue-400 hover:text-blue-300 underline transition-colors"
+            >
+              Remove
+            </button>
+          </div>
+        )}
         
+        <div>
+          <label htmlFor="targets" className="block text-sm font-medium text-gray-300 mb-1">
+            Target browsers <span className="text-gray-500">(browserslist query, optional)</span>
+          </label>
+          <input
+            id="targets"
+            type="text"
+            value={targets}
+            onChange={(e) => onTargetsChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="e.g. > 0.5% in GB, last 2 versions, not dead"
+            className="w-full px-4 py-2 border border-gray-600 bg-gray-900 text-gray-100 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent placeholder-gray-500"
+            spellCheck={false}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="polyfills" className="block text-sm font-medium text-gray-300 mb-1">
+            Polyfilled features <span className="text-gray-500">(feature ids or polyfill modules, comma-separated, optional)</span>
+          </label>
+          <input
+            id="polyfills"
+            type="text"
+            value={polyfills}
+            onChange={(e) => onPolyfillsChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="e.g. array-flat, core-js/stable/object"
+            className="w-full px-4 py-2 border border-gray-600 bg-gray-900 text-gray-100 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent placeholder-gray-500"
+            spellCheck={false}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label htmlFor="timeout" className="text-sm font-medium text-gray-300">
+            Timeout <span className="text-gray-500">(seconds, 0 for none)</span>
+          </label>
+          <input
+            id="timeout"
+            type="number"
+            min={0}
+            value={timeoutSeconds}
+            onChange={(e) => onTimeoutSecondsChange(Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 px-2 py-1 border border-gray-600 bg-gray-900 text-gray-100 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-300 mb-1">Browsers and runtimes in results</span>
+          <div className="flex flex-wrap gap-2">
+            {allBrowsers.map(browser => (
+              <button
+                key={browser}
+                type="button"
+                onClick={() => toggleBrowser(browser)}
+                aria-pressed={browsers.includes(browser)}
+                className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                  browsers.includes(browser)
+                    ? 'bg-blue-600/30 border-blue-500/50 text-blue-200'
+                    : 'bg-gray-900 border-gray-600 text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                <span className="mr-1">{browserDefinitions[browser].icon}</span>
+                {browserDefinitions[browser].name}
+              </button>
+            ))}
+          </div>
+        </div>
+
         <div className="flex gap-3">
           <button
             onClick={onAnalyze}
@@ -142,13 +394,21 @@ const createProxy = (target) => new Proxy(target, {
             )}
           </button>
           
-          <button
-            onClick={onClear}
-            disabled={loading}
-            className="px-4 py-2 border border-gray-600 text-gray-300 rounded-lg hover:bg-gray-700 disabled:bg-gray-800 disabled:cursor-not-allowed transition-colors"
-          >
-            Clear
-          </button>
+          {loading ? (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 border border-red-500/50 text-red-300 rounded-lg hover:bg-red-900/30 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={onClear}
+              className="px-4 py-2 border border-gray-600 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Clear
+            </button>
+          )}
         </div>
       </div>
     </div>
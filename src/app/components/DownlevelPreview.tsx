@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import type { DiffRow, DownlevelResult } from '../lib/downlevel';
+
+interface DownlevelPreviewProps {
+  code: string;
+  targets: string;
+}
+
+const rowColors = {
+  unchanged: { left: '', right: '' },
+  changed: { left: 'bg-red-900/30', right: 'bg-green-900/30' },
+  removed: { left: 'bg-red-900/30', right: '' },
+  added: { left: '', right: 'bg-green-900/30' }
+};
+
+const formatBytes = (bytes: number) => bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+function DiffCell({ side, row }: { side: 'left' | 'right'; row: DiffRow }) {
+  const cell = row[side];
+  return (
+    <>
+      <td className={`w-10 px-2 text-right text-gray-500 select-none align-top ${side === 'right' ? 'border-l border-gray-600' : ''} ${rowColors[row.kind][side]}`}>{cell?.line}</td>
+      <td className={`px-2 whitespace-pre text-gray-200 align-top ${rowColors[row.kind][side]}`}>{cell?.text}</td>
+    </>
+  );
+}
+
+export default function DownlevelPreview({ code, targets }: DownlevelPreviewProps) {
+  const [result, setResult] = useState<DownlevelResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCompile = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Babel's standalone build is large, so it's only loaded once a preview is asked for
+      const { downlevelCode } = await import('../lib/downlevel');
+      setResult(await downlevelCode(code, { targets }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while compiling the code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const growth = result ? result.code.length - result.original.length : 0;
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Downlevel Preview</h3>
+          <p className="text-xs text-gray-400">
+            {targets.trim()
+              ? <>Rewrites the syntax missing in <span className="font-mono">{targets.trim()}</span></>
+              : 'No target browsers set, so every transpilable feature is rewritten'}
+          </p>
+        </div>
+        <button
+          onClick={handleCompile}
+          disabled={loading || !code.trim()}
+          className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors text-sm"
+        >
+          {loading ? 'Compiling...' : 'Compile for Target'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-sm p-3 rounded-lg border bg-red-600/20 border-red-500/30 text-red-300 mb-4">{error}</div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-300">
+            {formatBytes(result.original.length)} → {formatBytes(result.code.length)}
+            <span className={growth > 0 ? 'text-yellow-300' : 'text-green-300'}>
+              {' '}({growth >= 0 ? '+' : ''}{formatBytes(growth)}{result.original.length > 0 && `, ${growth >= 0 ? '+' : ''}${Math.round((growth / result.original.length) * 100)}%`})
+            </span>
+          </div>
+
+          {result.features.length === 0 ? (
+            <p className="text-sm text-green-300">✅ No syntax needs rewriting for these targets</p>
+          ) : (
+            <div className="space-y-1">
+              {result.features.map(feature => (
+                <div key={feature.id} className="flex justify-between text-sm">
+                  <span className="text-white">
+                    {feature.feature}
+                    <span className="text-xs text-gray-400"> — line {Array.from(new Set(feature.codeSnippets.map(snippet => snippet.matchLine))).join(', ')}</span>
+                  </span>
+                  <span className="font-mono text-xs text-yellow-300">+{formatBytes(feature.addedBytes)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.untranspilable.length > 0 && (
+            <p className="text-xs text-gray-400">
+              Still missing after transpiling: {result.untranspilable.map(feature => feature.feature).join(', ')}
+            </p>
+          )}
+
+          {result.features.length > 0 && (
+            <div className="border border-gray-600 rounded overflow-x-auto max-h-[32rem] overflow-y-auto">
+              <table className="w-full text-xs font-mono border-collapse">
+                <thead className="sticky top-0 bg-gray-700 text-gray-300">
+                  <tr>
+                    <th colSpan={2} className="px-2 py-1 text-left font-medium">Original</th>
+                    <th colSpan={2} className="px-2 py-1 text-left font-medium border-l border-gray-600">Rewritten</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.diff.map((row, index) => (
+                    <tr key={index}>
+                      <DiffCell side="left" row={row} />
+                      <DiffCell side="right" row={row} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode, buildAnalysisResult, mergeFeatures } from './analyzer';
+import { formatSupport } from './support';
+
+describe('minimum versions', () => {
+  it('takes the highest version the features need', async () => {
+    const result = await analyzeCode('const a = x?.y; [1].at(-1);');
+    assert.equal(formatSupport(result.minimumVersions.chrome), '92+');
+    assert.equal(formatSupport(result.minimumVersions.ie), 'No');
+  });
+
+  it('has no minimum when every feature is polyfilled', async () => {
+    const result = await analyzeCode('Object.fromEntries(x)', { polyfills: ['object-fromentries'] });
+    assert.equal(result.features[0].polyfilledBy !== undefined, true);
+    for (const browser of result.browsers) {
+      assert.deepEqual(result.minimumVersions[browser], { added: null, any: true });
+      assert.equal(formatSupport(result.minimumVersions[browser]), 'Any');
+    }
+  });
+
+  it('has no minimum when every feature is guarded', async () => {
+    const result = await analyzeCode('structuredClone?.(x)');
+    assert.equal(result.features[0].guarded, true);
+    assert.equal(formatSupport(result.minimumVersions.ie), 'Any');
+  });
+
+  it('names the features that set each minimum and what remains without them', async () => {
+    const result = await analyzeCode('const a = 1;\n[1].at(-1);\n');
+    const reason = result.minimumVersionReasons.chrome;
+    assert.deepEqual(reason.drivers.map(driver => driver.id), ['array-at']);
+    assert.deepEqual(reason.drivers[0].locations, [{ file: undefined, line: 2, column: 1 }]);
+    assert.equal(formatSupport(reason.reductions[0].minimum), '49+');
+  });
+});
+
+describe('merged features', () => {
+  it('keeps an unguarded use past the occurrence limit', async () => {
+    const guardedFile = await analyzeCode('structuredClone?.(a);\nstructuredClone?.(b);\n', { fileName: 'a.js', maxOccurrences: 2 });
+    const unguardedFile = await analyzeCode('structuredClone(c);\n', { fileName: 'b.js', maxOccurrences: 2 });
+    const [merged] = mergeFeatures([guardedFile.features, unguardedFile.features], 2);
+    assert.equal(merged.codeSnippets.length, 2);
+    assert.equal(merged.omittedOccurrences, 1);
+
+    const result = buildAnalysisResult([merged], undefined);
+    assert.equal(result.features[0].guarded, undefined);
+    assert.equal(formatSupport(result.minimumVersions.chrome), '98+');
+  });
+});
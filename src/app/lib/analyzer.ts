@@ -1,31 +1,158 @@
 import { parse } from '@babel/parser';
 import traverse from '@babel/traverse';
 import * as t from '@babel/types';
+import { applyBuild, type BuildOptions, type BuildSummary } from './build';
+import { allBrowsers, browserDefinitions, defaultBrowsers, deriveSupport, selectBrowsers, type Runtime } from './browsers';
+import { caniuseVersion, getCaniuseStats, summariseSupport } from './caniuse';
+import { inferReceiverType, type ReceiverType } from './inference';
+import { applyPolyfills } from './polyfills';
+import { remediationFor, type Remediation } from './remediation';
+import { isGuarded } from './guards';
+import { globalPath, globalReference, isGlobal } from './scope';
+import { detectorVisitor, validateDetector, type Detector, type DetectorContext, type Visitor } from './detectors';
+import { CodeSyntaxError, describeParseError, formatParseError, type ParseError } from './diagnostics';
+import { createSnippetCollector, defaultMaxOccurrences, type SnippetCollector } from './snippets';
+import { createSnippetMapper, decodeInlineSourceMap, findSourceMappingURL, type SourceMap } from './sourcemap';
+import { isSupported, parseSupport, type SupportStatement, type SupportValue } from './support';
+import { checkTarget, compareVersions, resolveTargets, type TargetEvaluation } from './targets';
+import { compiledSyntax, compilesFile, isTypeScriptFile, libApis, normalizeTarget, type TypeScriptOptions } from './typescript';
 
-interface CodeSnippet {
+export interface CodeSnippet {
+  file?: string;
+  // The start of the match with its context lines
   text: string;
+  // Column the lines of text start at, when long lines were cut to a window around the match
+  textColumn?: number;
   startLine: number;
   matchLine: number;
   matchCol: number;
+  // Length of the whole match, which may run past the end of text
   matchLength: number;
+  // The match up to the end of its first line, or of the window
   matchText: string;
+  // Set when the occurrence only runs behind a feature-detection guard
+  guarded?: boolean;
+  // Location in the analyzed (generated) code when the snippet was mapped to its original source
+  generated?: {
+    file?: string;
+    line: number;
+    column: number;
+  };
 }
 
-interface FeatureSupport {
+// Support per browser id in browserDefinitions, e.g. { chrome: { added: '45' }, ie: { added: null } }
+export type SupportTable = Record<string, SupportStatement>;
+
+export interface FeatureSupport {
+  // Key in the feature map, e.g. 'array-flat'
+  id: string;
   feature: string;
   description: string;
-  support: {
-    chrome: string;
-    firefox: string;
-    safari: string;
-    edge: string;
-    ie: string;
-  };
+  support: SupportTable;
+  caniuseId?: string;
+  // Applies to the feature as a whole; notes on one browser go in its support statement
   notes?: string;
+  // Web platform API that server runtimes lack, unless their column is listed in the support table
+  browserOnly?: boolean;
+  // How to support the feature in browsers that lack it
+  remediation?: Remediation;
+}
+
+// Feature definitions either link to a caniuse feature or carry a hand-curated
+// fallback table for features caniuse doesn't track. Fallback tables need the
+// desktop browsers; the other columns are derived from them unless listed.
+// caniuse-linked features can list the runtimes caniuse doesn't cover, or give
+// the reason for a browser's partial support, which caniuse only numbers.
+export interface FeatureDefinition extends Omit<FeatureSupport, 'id' | 'support'> {
+  support?: Record<string, SupportValue>;
 }
 
-interface DetectedFeature extends FeatureSupport {
+export interface DetectedFeature extends FeatureSupport {
   codeSnippets: CodeSnippet[];
+  // Occurrences past AnalyzeOptions.maxOccurrences, which are counted but have no snippet
+  omittedOccurrences?: number;
+  unsupportedTargets?: string[];
+  unknownTargets?: string[];
+  // Polyfill module that provides the feature, or 'configuration' when listed in AnalyzeOptions.polyfills
+  polyfilledBy?: string;
+  // Every occurrence is behind a feature-detection guard, so the code works without it
+  guarded?: boolean;
+  // Compiler that rewrites the feature into older syntax before it ships, such as 'TypeScript'
+  compiledBy?: string;
+  // In server mode, the selected runtimes that don't have the feature at all
+  unavailableIn?: string[];
+}
+
+export type SourceLanguage = 'javascript' | 'css' | 'html';
+
+export interface AnalyzeOptions {
+  // browserslist query to evaluate the detected features against
+  targets?: string;
+  // Path of the analyzed source, recorded on every code snippet
+  filePath?: string;
+  // Name of the analyzed source when snippets shouldn't record it; like filePath, its
+  // extension decides whether the code is TypeScript
+  fileName?: string;
+  // Source map for built code; an inline sourceMappingURL data: URL is used when omitted
+  sourceMap?: SourceMap;
+  // Features polyfilled outside the analyzed code, as feature ids ('array-flat') or polyfill modules
+  polyfills?: string[];
+  // Browser ids to report minimum versions for; defaults to the five desktop browsers, or Node.js in server mode
+  browsers?: string[];
+  // 'server' reports the runtimes needed to run the code, with Node.js-specific detections,
+  // and flags browser-only APIs as unavailable
+  runtime?: Runtime;
+  // tsconfig.json options: syntax the target compiles away isn't reported as needing support,
+  // and lib APIs the targets lack are warned about
+  typescript?: TypeScriptOptions;
+  // Babel or SWC build the code goes through: what it compiles or polyfills doesn't count towards minimumVersions
+  build?: BuildOptions;
+  // Called as the analysis moves through its phases, for showing progress on large inputs
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Occurrences of each feature to record a snippet for; further ones are only counted. Defaults to 100.
+  maxOccurrences?: number;
+}
+
+export type AnalysisPhase = 'parse' | 'traverse' | 'aggregate';
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  // How far through the code the traversal is, from 0 to 1
+  completed?: number;
+  // The result for the features found so far, sent during the traversal when new ones turn up
+  partial?: AnalysisResult;
+}
+
+export interface FileAnalysis {
+  path: string;
+  analysis?: AnalysisResult;
+  error?: string;
+  // With an error because the file couldn't be parsed, the syntax errors found
+  parseErrors?: ParseError[];
+  unresolvedImports?: string[];
+}
+
+// Where a feature is used, as a 1-based line and column
+export interface FeatureLocation {
+  file?: string;
+  line: number;
+  column: number;
+}
+
+// Why a browser's minimum version is what it is
+export interface MinimumVersionExplanation {
+  // Features needing the minimum version, or that no version supports, with where the code uses them
+  // (occurrences past the occurrence limit are only counted, in omittedOccurrences)
+  drivers: { id: string; feature: string; support: SupportStatement; locations: FeatureLocation[]; omittedOccurrences?: number }[];
+  // The minimum left after also removing each group of features, most demanding first
+  reductions: { features: { id: string; feature: string }[]; minimum: SupportStatement }[];
+}
+
+// What the tsconfig.json means for the analyzed code
+export interface TypeScriptSummary {
+  target: string;
+  // Built-in APIs the lib setting declares that target browsers lack, so the type checker won't catch their use
+  libWarnings: { lib: string; id: string; feature: string; unsupportedTargets: string[] }[];
 }
 
 export interface AnalysisResult {
@@ -34,63 +161,58 @@ export interface AnalysisResult {
     totalFeatures: number;
     modernFeatures: number;
     legacySupport: boolean;
+    polyfilledFeatures: number;
+    guardedFeatures: number;
+    unavailableFeatures: number;
+    compiledFeatures: number;
   };
-  minimumVersions: {
-    chrome: string;
-    firefox: string;
-    safari: string;
-    edge: string;
-    ie: string;
-  };
+  runtime: Runtime;
+  // Browser ids reported, in display order; every feature's support table covers all of browserDefinitions
+  browsers: string[];
+  minimumVersions: SupportTable;
+  minimumVersionReasons: Record<string, MinimumVersionExplanation>;
+  caniuseVersion: string;
+  targets?: TargetEvaluation;
+  typescript?: TypeScriptSummary;
+  // With a build configuration, which features it handles and which reach the browser unchanged
+  build?: BuildSummary;
+  // Language the code was analyzed as; absent for merged project results
+  language?: SourceLanguage;
+  // Module specifiers imported, re-exported or dynamically imported by the code
+  imports?: string[];
+  // Syntax errors the analysis parsed past; features in code they cut off may be missing
+  parseErrors?: ParseError[];
+  // Per-file breakdown when several files were analyzed together
+  files?: FileAnalysis[];
 }
 
 // Feature detection mapping
-const featureMap: Record<string, FeatureSupport> = {
+const featureDefinitions: Record<string, FeatureDefinition> = {
   'arrow-function': {
     feature: 'Arrow Functions',
     description: 'Arrow function expressions (=>)',
-    support: {
-      chrome: '45+',
-      firefox: '22+',
-      safari: '10+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'arrow-functions'
   },
   'const-declaration': {
     feature: 'Const Declaration',
     description: 'Block-scoped constant declarations',
+    caniuseId: 'const',
     support: {
-      chrome: '49+',
-      firefox: '36+',
-      safari: '10+',
-      edge: '12+',
-      ie: '11*'
-    },
-    notes: 'IE11 has partial support'
+      ie: { added: '11', partial: { reason: 'Constants in loops share one binding rather than getting one per iteration' } }
+    }
   },
   'let-declaration': {
     feature: 'Let Declaration',
     description: 'Block-scoped variable declarations',
+    caniuseId: 'let',
     support: {
-      chrome: '49+',
-      firefox: '44+',
-      safari: '10+',
-      edge: '12+',
-      ie: '11*'
-    },
-    notes: 'IE11 has partial support'
+      ie: { added: '11', partial: { reason: 'Loops share one binding rather than creating one per iteration' } }
+    }
   },
   'template-literal': {
     feature: 'Template Literals',
     description: 'Template literal syntax with ${} interpolation',
-    support: {
-      chrome: '41+',
-      firefox: '34+',
-      safari: '9+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'template-literals'
   },
   'destructuring': {
     feature: 'Destructuring Assignment',
@@ -117,35 +239,17 @@ const featureMap: Record<string, FeatureSupport> = {
   'async-await': {
     feature: 'Async/Await',
     description: 'Asynchronous function syntax',
-    support: {
-      chrome: '55+',
-      firefox: '52+',
-      safari: '10.1+',
-      edge: '14+',
-      ie: 'No'
-    }
+    caniuseId: 'async-functions'
   },
   'promise': {
     feature: 'Promises',
     description: 'Native Promise implementation',
-    support: {
-      chrome: '32+',
-      firefox: '29+',
-      safari: '7.1+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'promises'
   },
   'class-declaration': {
     feature: 'Classes',
     description: 'ES6 class syntax',
-    support: {
-      chrome: '49+',
-      firefox: '45+',
-      safari: '9+',
-      edge: '13+',
-      ie: 'No'
-    }
+    caniuseId: 'es6-class'
   },
   'for-of': {
     feature: 'For...of Loop',
@@ -227,13 +331,7 @@ const featureMap: Record<string, FeatureSupport> = {
   'rest-parameters': {
     feature: 'Rest Parameters',
     description: 'Rest parameters (...args)',
-    support: {
-      chrome: '47+',
-      firefox: '15+',
-      safari: '10+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'rest-parameters'
   },
   'computed-property': {
     feature: 'Computed Property Names',
@@ -271,45 +369,30 @@ const featureMap: Record<string, FeatureSupport> = {
   'generator-function': {
     feature: 'Generator Functions',
     description: 'Generator functions function*',
-    support: {
-      chrome: '39+',
-      firefox: '26+',
-      safari: '10+',
-      edge: '13+',
-      ie: 'No'
-    }
+    caniuseId: 'es6-generators'
   },
   'import-statement': {
     feature: 'ES6 Modules (import)',
     description: 'ES6 import statements',
+    caniuseId: 'es6-module',
     support: {
-      chrome: '61+',
-      firefox: '60+',
-      safari: '10.1+',
-      edge: '16+',
-      ie: 'No'
+      node: '12.17+'
     }
   },
   'export-statement': {
     feature: 'ES6 Modules (export)',
     description: 'ES6 export statements',
+    caniuseId: 'es6-module',
     support: {
-      chrome: '61+',
-      firefox: '60+',
-      safari: '10.1+',
-      edge: '16+',
-      ie: 'No'
+      node: '12.17+'
     }
   },
   'dynamic-import': {
     feature: 'Dynamic Import',
     description: 'Dynamic import() syntax',
+    caniuseId: 'es6-module-dynamic-import',
     support: {
-      chrome: '63+',
-      firefox: '67+',
-      safari: '11.1+',
-      edge: '79+',
-      ie: 'No'
+      node: '12.17+'
     }
   },
   'array-from': {
@@ -326,57 +409,27 @@ const featureMap: Record<string, FeatureSupport> = {
   'array-find': {
     feature: 'Array.find()',
     description: 'Array.prototype.find() method',
-    support: {
-      chrome: '45+',
-      firefox: '25+',
-      safari: '7.1+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'array-find'
   },
   'array-findindex': {
     feature: 'Array.findIndex()',
     description: 'Array.prototype.findIndex() method',
-    support: {
-      chrome: '45+',
-      firefox: '25+',
-      safari: '7.1+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'array-find-index'
   },
   'array-includes': {
     feature: 'Array.includes()',
     description: 'Array.prototype.includes() method',
-    support: {
-      chrome: '47+',
-      firefox: '43+',
-      safari: '9+',
-      edge: '14+',
-      ie: 'No'
-    }
+    caniuseId: 'array-includes'
   },
   'array-flat': {
     feature: 'Array.flat()',
     description: 'Array.prototype.flat() method',
-    support: {
-      chrome: '69+',
-      firefox: '62+',
-      safari: '12+',
-      edge: '79+',
-      ie: 'No'
-    }
+    caniuseId: 'array-flat'
   },
   'array-flatmap': {
     feature: 'Array.flatMap()',
     description: 'Array.prototype.flatMap() method',
-    support: {
-      chrome: '69+',
-      firefox: '62+',
-      safari: '12+',
-      edge: '79+',
-      ie: 'No'
-    }
+    caniuseId: 'array-flat'
   },
   'object-assign': {
     feature: 'Object.assign()',
@@ -403,24 +456,12 @@ const featureMap: Record<string, FeatureSupport> = {
   'object-values': {
     feature: 'Object.values()',
     description: 'Object.values() method',
-    support: {
-      chrome: '54+',
-      firefox: '47+',
-      safari: '10.1+',
-      edge: '14+',
-      ie: 'No'
-    }
+    caniuseId: 'object-values'
   },
   'object-entries': {
     feature: 'Object.entries()',
     description: 'Object.entries() method',
-    support: {
-      chrome: '54+',
-      firefox: '47+',
-      safari: '10.1+',
-      edge: '14+',
-      ie: 'No'
-    }
+    caniuseId: 'object-entries'
   },
   'object-fromentries': {
     feature: 'Object.fromEntries()',
@@ -436,13 +477,7 @@ const featureMap: Record<string, FeatureSupport> = {
   'string-includes': {
     feature: 'String.includes()',
     description: 'String.prototype.includes() method',
-    support: {
-      chrome: '41+',
-      firefox: '40+',
-      safari: '9+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'es6-string-includes'
   },
   'string-startswith': {
     feature: 'String.startsWith()',
@@ -480,24 +515,12 @@ const featureMap: Record<string, FeatureSupport> = {
   'string-padstart': {
     feature: 'String.padStart()',
     description: 'String.prototype.padStart() method',
-    support: {
-      chrome: '57+',
-      firefox: '48+',
-      safari: '10+',
-      edge: '15+',
-      ie: 'No'
-    }
+    caniuseId: 'pad-start-end'
   },
   'string-padend': {
     feature: 'String.padEnd()',
     description: 'String.prototype.padEnd() method',
-    support: {
-      chrome: '57+',
-      firefox: '48+',
-      safari: '10+',
-      edge: '15+',
-      ie: 'No'
-    }
+    caniuseId: 'pad-start-end'
   },
   'weakmap': {
     feature: 'WeakMap',
@@ -524,13 +547,7 @@ const featureMap: Record<string, FeatureSupport> = {
   'proxy': {
     feature: 'Proxy',
     description: 'Proxy object for meta-programming',
-    support: {
-      chrome: '49+',
-      firefox: '18+',
-      safari: '10+',
-      edge: '12+',
-      ie: 'No'
-    }
+    caniuseId: 'proxy'
   },
   'reflect': {
     feature: 'Reflect',
@@ -546,13 +563,7 @@ const featureMap: Record<string, FeatureSupport> = {
   'bigint': {
     feature: 'BigInt',
     description: 'BigInt primitive type',
-    support: {
-      chrome: '67+',
-      firefox: '68+',
-      safari: '14+',
-      edge: '79+',
-      ie: 'No'
-    }
+    caniuseId: 'bigint'
   },
   'private-fields': {
     feature: 'Private Class Fields',
@@ -565,6 +576,17 @@ const featureMap: Record<string, FeatureSupport> = {
       ie: 'No'
     }
   },
+  'class-fields': {
+    feature: 'Public Class Fields',
+    description: 'Public instance class fields (x = 1 in a class body)',
+    support: {
+      chrome: '72+',
+      firefox: '69+',
+      safari: '14+',
+      edge: '79+',
+      ie: 'No'
+    }
+  },
   'static-class-fields': {
     feature: 'Static Class Fields',
     description: 'Static class fields',
@@ -606,7 +628,8 @@ const featureMap: Record<string, FeatureSupport> = {
       firefox: '89+',
       safari: '15+',
       edge: '89+',
-      ie: 'No'
+      ie: 'No',
+      node: '14.8+'
     }
   },
   'regex-named-groups': {
@@ -623,13 +646,7 @@ const featureMap: Record<string, FeatureSupport> = {
   'regex-lookbehind': {
     feature: 'RegExp Lookbehind Assertions',
     description: 'Lookbehind assertions in regular expressions (?<=...) (?<!...)',
-    support: {
-      chrome: '62+',
-      firefox: '78+',
-      safari: '16.4+',
-      edge: '79+',
-      ie: 'No'
-    }
+    caniuseId: 'js-regexp-lookbehind'
   },
   'regex-unicode-property': {
     feature: 'RegExp Unicode Property Escapes',
@@ -672,7 +689,8 @@ const featureMap: Record<string, FeatureSupport> = {
       firefox: '62+',
       safari: '11.1+',
       edge: '79+',
-      ie: 'No'
+      ie: 'No',
+      node: '12.17+'
     }
   },
   'array-at': {
@@ -815,7 +833,10 @@ const featureMap: Record<string, FeatureSupport> = {
       firefox: '94+',
       safari: '15.4+',
       edge: '98+',
-      ie: 'No'
+      ie: 'No',
+      node: '17+',
+      deno: '1.14+',
+      bun: '1.0+'
     }
   },
   'string-matchall': {
@@ -931,25 +952,13 @@ const featureMap: Record<string, FeatureSupport> = {
   'temporal': {
     feature: 'Temporal API',
     description: 'New date/time API (Stage 3)',
-    support: {
-      chrome: 'No*',
-      firefox: 'No*',
-      safari: 'No*',
-      edge: 'No*',
-      ie: 'No'
-    },
-    notes: 'Stage 3 proposal, available behind flags'
+    caniuseId: 'temporal',
+    notes: 'Stage 3 proposal, not yet shipped in every browser'
   },
   'decorators': {
     feature: 'Decorators',
     description: 'Class and method decorators',
-    support: {
-      chrome: '120+',
-      firefox: 'No*',
-      safari: 'No*',
-      edge: '120+',
-      ie: 'No'
-    },
+    caniuseId: 'decorators',
     notes: 'Stage 3 proposal with limited support'
   },
   'iterator-helpers': {
@@ -957,35 +966,115 @@ const featureMap: Record<string, FeatureSupport> = {
     description: 'Iterator.prototype methods (map, filter, etc.)',
     support: {
       chrome: '122+',
-      firefox: 'No*',
-      safari: 'No*',
+      firefox: '131+',
+      safari: '18.4+',
       edge: '122+',
       ie: 'No'
-    },
-    notes: 'Stage 3 proposal'
+    }
   },
-  'atomics': {
-    feature: 'Atomics',
-    description: 'Atomic operations for SharedArrayBuffer',
+  'iterator-from': {
+    feature: 'Iterator.from()',
+    description: 'Wrap an iterable or iterator so it has the iterator helpers (ES2025)',
     support: {
-      chrome: '68+',
-      firefox: '78+',
-      safari: '15.2+',
-      edge: '79+',
+      chrome: '122+',
+      firefox: '131+',
+      safari: '18.4+',
+      edge: '122+',
       ie: 'No'
     }
   },
-  'sharedarraybuffer': {
-    feature: 'SharedArrayBuffer',
-    description: 'Shared memory between workers',
+  'explicit-resource-management': {
+    feature: 'Explicit Resource Management',
+    description: 'using and await using declarations that dispose of resources at the end of a block',
+    notes: 'Stage 3 proposal',
     support: {
-      chrome: '68+',
-      firefox: '79+',
-      safari: '15.2+',
-      edge: '79+',
+      chrome: '134+',
+      firefox: '141+',
+      safari: 'No',
+      edge: '134+',
+      ie: 'No',
+      // Bun's transpiler lowers the declarations itself
+      bun: '1.0.23+'
+    }
+  },
+  'promise-withresolvers': {
+    feature: 'Promise.withResolvers()',
+    description: 'Create a promise along with its resolve and reject functions (ES2024)',
+    support: {
+      chrome: '119+',
+      firefox: '121+',
+      safari: '17.4+',
+      edge: '119+',
+      ie: 'No'
+    }
+  },
+  'set-methods': {
+    feature: 'Set Methods',
+    description: 'Set.prototype.union(), intersection(), difference() and the other set operations (ES2025)',
+    support: {
+      chrome: '122+',
+      firefox: '127+',
+      safari: '17+',
+      edge: '122+',
+      ie: 'No'
+    }
+  },
+  'regexp-escape': {
+    feature: 'RegExp.escape()',
+    description: 'Escape a string for use in a regular expression (ES2025)',
+    support: {
+      chrome: '136+',
+      firefox: '134+',
+      safari: '18.2+',
+      edge: '136+',
       ie: 'No'
     }
   },
+  'float16array': {
+    feature: 'Float16Array',
+    description: 'Typed array of half-precision floats, and Math.f16round() (ES2025)',
+    support: {
+      chrome: '135+',
+      firefox: '129+',
+      safari: '18.2+',
+      edge: '135+',
+      ie: 'No'
+    }
+  },
+  'error-iserror': {
+    feature: 'Error.isError()',
+    description: 'Check whether a value is an Error, including from other realms',
+    notes: 'Stage 3 proposal',
+    support: {
+      chrome: '134+',
+      firefox: '138+',
+      safari: 'No',
+      edge: '134+',
+      ie: 'No'
+    }
+  },
+  'math-sumprecise': {
+    feature: 'Math.sumPrecise()',
+    description: 'Sum an iterable of numbers without intermediate rounding',
+    notes: 'Stage 3 proposal',
+    support: {
+      chrome: 'No',
+      firefox: '137+',
+      safari: 'No',
+      edge: 'No',
+      ie: 'No'
+    }
+  },
+  'atomics': {
+    feature: 'Atomics',
+    description: 'Atomic operations for SharedArrayBuffer',
+    caniuseId: 'sharedarraybuffer'
+  },
+  'sharedarraybuffer': {
+    feature: 'SharedArrayBuffer',
+    description: 'Shared memory between workers',
+    caniuseId: 'sharedarraybuffer'
+  },
   'bigint64array': {
     feature: 'BigInt64Array',
     description: 'Typed array for 64-bit integers',
@@ -1081,7 +1170,7 @@ const featureMap: Record<string, FeatureSupport> = {
     description: 'ArrayBuffer.prototype.resize()',
     support: {
       chrome: '111+',
-      firefox: 'No*',
+      firefox: '128+',
       safari: '16.4+',
       edge: '111+',
       ie: 'No'
@@ -1112,83 +1201,64 @@ const featureMap: Record<string, FeatureSupport> = {
   'fetch-api': {
     feature: 'Fetch API',
     description: 'Modern fetch() for network requests',
+    caniuseId: 'fetch',
     support: {
-      chrome: '42+',
-      firefox: '39+',
-      safari: '10.1+',
-      edge: '14+',
-      ie: 'No'
+      node: '18+',
+      deno: '1.0+',
+      bun: '1.0+'
     }
   },
   'urlsearchparams': {
     feature: 'URLSearchParams',
     description: 'URL query string manipulation API',
+    caniuseId: 'urlsearchparams',
     support: {
-      chrome: '49+',
-      firefox: '29+',
-      safari: '10.1+',
-      edge: '17+',
-      ie: 'No'
+      node: '10+',
+      deno: '1.0+',
+      bun: '1.0+'
     }
   },
   'url-constructor': {
     feature: 'URL Constructor',
     description: 'URL constructor for URL parsing and manipulation',
+    caniuseId: 'url',
     support: {
-      chrome: '32+',
-      firefox: '26+',
-      safari: '7+',
-      edge: '12+',
-      ie: 'No'
+      node: '10+',
+      deno: '1.0+',
+      bun: '1.0+'
     }
   },
   'abortcontroller': {
     feature: 'AbortController',
     description: 'Abort API for cancelling fetch requests',
+    caniuseId: 'abortcontroller',
     support: {
-      chrome: '66+',
-      firefox: '57+',
-      safari: '11.1+',
-      edge: '16+',
-      ie: 'No'
+      node: '15+',
+      deno: '1.4+',
+      bun: '1.0+'
     }
   },
   'intersectionobserver': {
     feature: 'IntersectionObserver',
     description: 'API to observe element visibility changes',
-    support: {
-      chrome: '51+',
-      firefox: '55+',
-      safari: '12.1+',
-      edge: '15+',
-      ie: 'No'
-    }
+    caniuseId: 'intersectionobserver',
+    browserOnly: true
   },
   'mutationobserver': {
     feature: 'MutationObserver',
     description: 'API to observe DOM mutations',
-    support: {
-      chrome: '26+',
-      firefox: '14+',
-      safari: '7+',
-      edge: '12+',
-      ie: '11+'
-    }
+    caniuseId: 'mutationobserver',
+    browserOnly: true
   },
   'resizeobserver': {
     feature: 'ResizeObserver',
     description: 'API to observe element resize events',
-    support: {
-      chrome: '64+',
-      firefox: '69+',
-      safari: '13.1+',
-      edge: '79+',
-      ie: 'No'
-    }
-  },
-  'array-fromasync': {
-    feature: 'Array.fromAsync()',
-    description: 'Create array from async iterable (ES2024)',
+    caniuseId: 'resizeobserver',
+    browserOnly: true
+  },
+  'array-fromasync': {
+    feature: 'Array.fromAsync()',
+    description: 'Create array from async iterable (ES2024)',
     support: {
       chrome: '121+',
       firefox: '119+',
@@ -1222,12 +1292,11 @@ const featureMap: Record<string, FeatureSupport> = {
   'performance-now': {
     feature: 'performance.now()',
     description: 'High resolution timestamp API',
+    caniuseId: 'high-resolution-time',
     support: {
-      chrome: '24+',
-      firefox: '15+',
-      safari: '8+',
-      edge: '12+',
-      ie: '10+'
+      node: '16+',
+      deno: '1.0+',
+      bun: '1.0+'
     }
   },
   'queuemicrotask': {
@@ -1238,18 +1307,20 @@ const featureMap: Record<string, FeatureSupport> = {
       firefox: '69+',
       safari: '12.1+',
       edge: '79+',
-      ie: 'No'
+      ie: 'No',
+      node: '11+',
+      deno: '1.0+',
+      bun: '1.0+'
     }
   },
   'crypto-getrandomvalues': {
     feature: 'crypto.getRandomValues()',
     description: 'Cryptographically secure random values',
+    caniuseId: 'getrandomvalues',
     support: {
-      chrome: '11+',
-      firefox: '26+',
-      safari: '6.1+',
-      edge: '12+',
-      ie: '11+'
+      node: '19+',
+      deno: '1.0+',
+      bun: '1.0+'
     }
   },
   'crypto-randomuuid': {
@@ -1260,7 +1331,10 @@ const featureMap: Record<string, FeatureSupport> = {
       firefox: '95+',
       safari: '15.4+',
       edge: '92+',
-      ie: 'No'
+      ie: 'No',
+      node: '19+',
+      deno: '1.11+',
+      bun: '1.0+'
     }
   },
   'typedarray-at': {
@@ -1288,35 +1362,28 @@ const featureMap: Record<string, FeatureSupport> = {
   'localstorage': {
     feature: 'localStorage',
     description: 'Local storage web API',
+    caniuseId: 'namevalue-storage',
     support: {
-      chrome: '4+',
-      firefox: '3.5+',
-      safari: '4+',
-      edge: '12+',
-      ie: '8+'
-    }
+      node: 'No*',
+      deno: '1.10+'
+    },
+    browserOnly: true
   },
   'sessionstorage': {
     feature: 'sessionStorage',
     description: 'Session storage web API',
+    caniuseId: 'namevalue-storage',
     support: {
-      chrome: '5+',
-      firefox: '2+',
-      safari: '4+',
-      edge: '12+',
-      ie: '8+'
-    }
+      node: 'No*',
+      deno: '1.10+'
+    },
+    browserOnly: true
   },
   'indexeddb': {
     feature: 'IndexedDB',
     description: 'Client-side database API',
-    support: {
-      chrome: '24+',
-      firefox: '16+',
-      safari: '7+',
-      edge: '12+',
-      ie: '10+'
-    }
+    caniuseId: 'indexeddb',
+    browserOnly: true
   },
   'reporterror': {
     feature: 'reportError()',
@@ -1326,95 +1393,461 @@ const featureMap: Record<string, FeatureSupport> = {
       firefox: '93+',
       safari: '15.4+',
       edge: '95+',
+      ie: 'No',
+      node: 'No',
+      deno: '1.19+',
+      bun: '1.0+'
+    }
+  },
+  'websocket': {
+    feature: 'WebSocket',
+    description: 'Two-way socket connections to a server',
+    caniuseId: 'websockets',
+    support: {
+      node: '22+',
+      deno: '1.0+',
+      bun: '1.0+'
+    }
+  },
+  'eventsource': {
+    feature: 'EventSource',
+    description: 'Server-sent events over a long-lived HTTP connection',
+    caniuseId: 'eventsource',
+    support: {
+      node: 'No*',
+      deno: '1.40+',
+      bun: 'No'
+    }
+  },
+  'beacon': {
+    feature: 'navigator.sendBeacon()',
+    description: 'Queue a small POST request that outlives the page',
+    caniuseId: 'beacon',
+    browserOnly: true
+  },
+  'cache-api': {
+    feature: 'Cache API',
+    description: 'Store request and response pairs with caches.open()',
+    support: {
+      chrome: '43+',
+      firefox: '41+',
+      safari: '11.1+',
+      edge: '16+',
+      ie: 'No',
+      deno: '1.26+'
+    },
+    browserOnly: true
+  },
+  'readablestream': {
+    feature: 'Streams API',
+    description: 'ReadableStream and WritableStream for processing data in chunks',
+    caniuseId: 'streams',
+    support: {
+      safari: { added: '10', partial: { reason: 'A ReadableStream can\'t be iterated with for await...of' } },
+      ios_saf: { added: '10.3', partial: { reason: 'A ReadableStream can\'t be iterated with for await...of' } },
+      node: '18+',
+      deno: '1.0+',
+      bun: '1.0+'
+    }
+  },
+  'transformstream': {
+    feature: 'TransformStream',
+    description: 'Transform a stream as it is piped through',
+    support: {
+      chrome: '67+',
+      firefox: '102+',
+      safari: '14.1+',
+      edge: '79+',
+      ie: 'No',
+      node: '18+',
+      deno: '1.0+',
+      bun: '1.0+'
+    }
+  },
+  'compressionstream': {
+    feature: 'CompressionStream',
+    description: 'gzip and deflate compression with CompressionStream and DecompressionStream',
+    support: {
+      chrome: '80+',
+      firefox: '113+',
+      safari: '16.4+',
+      edge: '80+',
+      ie: 'No',
+      node: '18+',
+      deno: '1.11+',
+      bun: '1.2+'
+    }
+  },
+  'fetch-keepalive': {
+    feature: 'fetch() keepalive',
+    description: 'Requests that complete after the page unloads',
+    support: {
+      chrome: '66+',
+      firefox: '133+',
+      safari: '13+',
+      edge: '79+',
       ie: 'No'
+    },
+    browserOnly: true
+  },
+  'fetch-priority': {
+    feature: 'fetch() priority',
+    description: 'Priority hint for a request',
+    support: {
+      chrome: '101+',
+      firefox: '132+',
+      safari: '17.2+',
+      edge: '101+',
+      ie: 'No'
+    },
+    browserOnly: true
+  },
+  'storage-estimate': {
+    feature: 'navigator.storage.estimate()',
+    description: 'Estimate the storage used and available to the origin',
+    support: {
+      chrome: '61+',
+      firefox: '57+',
+      safari: '17+',
+      edge: '79+',
+      ie: 'No'
+    },
+    browserOnly: true
+  },
+  'storage-persist': {
+    feature: 'navigator.storage.persist()',
+    description: 'Ask for storage the browser won\'t evict under pressure',
+    support: {
+      chrome: '55+',
+      firefox: '55+',
+      safari: '15.2+',
+      edge: '79+',
+      ie: 'No'
+    },
+    browserOnly: true
+  },
+  'storage-buckets': {
+    feature: 'Storage Buckets API',
+    description: 'Separately managed buckets of origin storage',
+    support: {
+      chrome: '122+',
+      firefox: 'No',
+      safari: 'No',
+      edge: '122+',
+      ie: 'No'
+    },
+    browserOnly: true
+  },
+  // Server runtime features, only detected in server mode
+  'import-meta-dirname': {
+    feature: 'import.meta.dirname',
+    description: 'Directory and file path of the current module (import.meta.dirname, import.meta.filename)',
+    support: {
+      chrome: 'No',
+      firefox: 'No',
+      safari: 'No',
+      edge: 'No',
+      ie: 'No',
+      node: '20.11+',
+      deno: '1.40+',
+      bun: '1.1+'
+    }
+  },
+  'require-esm': {
+    feature: 'require(esm)',
+    description: 'Loading an ES module with require()',
+    notes: 'Also available without a flag from Node.js 20.19',
+    support: {
+      chrome: 'No',
+      firefox: 'No',
+      safari: 'No',
+      edge: 'No',
+      ie: 'No',
+      node: '22.12+',
+      deno: 'No',
+      bun: '1.0+'
+    }
+  },
+  'navigator-global': {
+    feature: 'navigator',
+    description: 'The navigator global object',
+    support: {
+      chrome: '1+',
+      firefox: '1+',
+      safari: '1+',
+      edge: '12+',
+      ie: '6+',
+      node: '21+',
+      deno: '1.0+',
+      bun: '1.0+'
+    }
+  },
+  'process-getbuiltinmodule': {
+    feature: 'process.getBuiltinModule()',
+    description: 'Load a built-in module without importing it',
+    notes: 'Also backported to Node.js 20.16',
+    support: {
+      chrome: 'No',
+      firefox: 'No',
+      safari: 'No',
+      edge: 'No',
+      ie: 'No',
+      node: '22.3+',
+      deno: 'No',
+      bun: '1.1+'
     }
   }
 };
 
-export async function analyzeCode(code: string): Promise<AnalysisResult> {
-  const detectedFeatures: Set<string> = new Set();
-  const featureSnippets: Map<string, Set<CodeSnippet>> = new Map();
-
-  // Helper function to extract code snippet around a node with context
-  const extractSnippet = (start: number, end: number): CodeSnippet => {
-    const lines = code.split('\n');
-    let currentPos = 0;
-    let startLine = 0;
-    let endLine = 0;
-    let startCol = 0;
-
-    // Find line numbers for start and end positions
-    for (let i = 0; i < lines.length; i++) {
-      const lineLength = lines[i].length + 1; // +1 for newline
-      if (currentPos + lineLength > start && startLine === 0) {
-        startLine = i + 1;
-        startCol = start - currentPos;
-      }
-      if (currentPos + lineLength > end && endLine === 0) {
-        endLine = i + 1;
-        break;
-      }
-      currentPos += lineLength;
-    }
+// Instance methods shared by several built-ins, and the feature each receiver type
+// maps to. Calls on receivers of unknown type are reported as every variant.
+const instanceMethods: Record<string, Partial<Record<Exclude<ReceiverType, 'other' | 'unknown'>, string>>> = {
+  find: { array: 'array-find', typedarray: 'array-find' },
+  findIndex: { array: 'array-findindex', typedarray: 'array-findindex' },
+  findLast: { array: 'array-findlast', typedarray: 'array-findlast' },
+  findLastIndex: { array: 'array-findlastindex', typedarray: 'array-findlastindex' },
+  at: { array: 'array-at', string: 'string-at', typedarray: 'typedarray-at' },
+  // TypedArray.prototype.includes shipped alongside Array.prototype.includes
+  includes: { array: 'array-includes', string: 'string-includes', typedarray: 'array-includes' },
+  flat: { array: 'array-flat' },
+  flatMap: { array: 'array-flatmap' },
+  toReversed: { array: 'array-toreversed', typedarray: 'array-toreversed' },
+  toSorted: { array: 'array-tosorted', typedarray: 'array-tosorted' },
+  toSpliced: { array: 'array-tospliced' },
+  with: { array: 'array-with', typedarray: 'typedarray-with' },
+  startsWith: { string: 'string-startswith' },
+  endsWith: { string: 'string-endswith' },
+  repeat: { string: 'string-repeat' },
+  padStart: { string: 'string-padstart' },
+  padEnd: { string: 'string-padend' },
+  replaceAll: { string: 'string-replaceall' },
+  matchAll: { string: 'string-matchall' },
+  trimStart: { string: 'string-trimstart' },
+  trimEnd: { string: 'string-trimend' },
+  isWellFormed: { string: 'string-iswellformed' },
+  toWellFormed: { string: 'string-towellformed' },
+  union: { set: 'set-methods' },
+  intersection: { set: 'set-methods' },
+  difference: { set: 'set-methods' },
+  symmetricDifference: { set: 'set-methods' },
+  isSubsetOf: { set: 'set-methods' },
+  isSupersetOf: { set: 'set-methods' },
+  isDisjointFrom: { set: 'set-methods' }
+};
 
-    // Extract context lines (2 before, 2 after)
-    const contextStart = Math.max(0, startLine - 3);
-    const contextEnd = Math.min(lines.length, endLine + 2);
-    const contextLines = lines.slice(contextStart, contextEnd);
-    
-    const matchText = code.slice(start, end);
-    
-    return {
-      text: contextLines.join('\n'),
-      startLine: contextStart + 1,
-      matchLine: startLine,
-      matchCol: startCol,
-      matchLength: end - start,
-      matchText
-    };
-  };
+// Constructors of the streaming and fetch APIs, and the feature each one belongs to
+const webApiConstructors: Record<string, string> = {
+  WebSocket: 'websocket',
+  EventSource: 'eventsource',
+  ReadableStream: 'readablestream',
+  WritableStream: 'readablestream',
+  TransformStream: 'transformstream',
+  CompressionStream: 'compressionstream',
+  DecompressionStream: 'compressionstream',
+  Request: 'fetch-api',
+  Response: 'fetch-api',
+  Headers: 'fetch-api'
+};
 
-  // Helper function to add feature with snippet
-  const addFeature = (featureKey: string, start?: number | null, end?: number | null) => {
-    detectedFeatures.add(featureKey);
-    
-    if (start !== null && start !== undefined && end !== null && end !== undefined) {
-      if (!featureSnippets.has(featureKey)) {
-        featureSnippets.set(featureKey, new Set());
-      }
-      const snippet = extractSnippet(start, end);
-      featureSnippets.get(featureKey)!.add(snippet);
-    }
-  };
+// Request options, for fetch() and new Request(), that need more than fetch itself
+const fetchOptions: Record<string, string> = {
+  keepalive: 'fetch-keepalive',
+  priority: 'fetch-priority'
+};
 
-  try {
-    // Check for hashbang at the start of the code
-    if (code.startsWith('#!')) {
-      addFeature('hashbang', 0, 2);
+// Methods on navigator and its storage manager, by dotted global path
+const navigatorMethods: Record<string, string> = {
+  'navigator.sendBeacon': 'beacon',
+  'navigator.storage.estimate': 'storage-estimate',
+  'navigator.storage.persist': 'storage-persist',
+  'navigator.storage.persisted': 'storage-persist'
+};
+
+// The properties of an object literal written with plain names, such as fetch() options
+const literalProperties = (node) => t.isObjectExpression(node)
+  ? node.properties.filter(property => t.isObjectProperty(property) && !property.computed && t.isIdentifier(property.key))
+  : [];
+
+// Iterator helpers share their names with array methods, so they're only reported
+// on receivers known to be iterators, such as array.values() or a generator call
+const iteratorHelpers = ['map', 'filter', 'take', 'drop', 'flatMap', 'reduce', 'toArray', 'forEach', 'some', 'every', 'find'];
+
+// Build a feature's support table from the bundled caniuse data, falling back to
+// the hand-curated table for browsers (or features) caniuse has no data for, and
+// then to the browser or engine a column is derived from
+const resolveSupport = (key: string, definition: FeatureDefinition): SupportTable => {
+  const stats = definition.caniuseId ? getCaniuseStats(definition.caniuseId) : undefined;
+  if (definition.caniuseId && !stats) {
+    throw new Error(`Unknown caniuse feature '${definition.caniuseId}' for '${key}'`);
+  }
+
+  const support: SupportTable = {};
+  allBrowsers.forEach(browser => {
+    const curated = definition.support?.[browser] !== undefined ? parseSupport(definition.support[browser]) : undefined;
+    let resolved = stats && browserDefinitions[browser].caniuse ? summariseSupport(stats[browser], browser) : undefined;
+    // caniuse decides the versions; a curated statement only adds the explanations it lacks
+    if (resolved && curated) {
+      resolved = {
+        ...resolved,
+        ...(resolved.partial && curated.partial ? { partial: curated.partial } : {}),
+        ...(curated.notes ? { notes: curated.notes } : {})
+      };
     }
+    const serverless = definition.browserOnly && browserDefinitions[browser].kind === 'runtime' ? { added: null } : undefined;
+    const value = resolved ?? curated ?? serverless ?? deriveSupport(browser, support);
+    if (value === undefined) {
+      throw new Error(`No support data for '${key}' in ${browser}`);
+    }
+    support[browser] = value;
+  });
+  return support;
+};
 
-    // Parse the code with Babel
-    const ast = parse(code, {
-      sourceType: 'module',
-      allowImportExportEverywhere: true,
-      allowReturnOutsideFunction: true,
-      plugins: [
-        'jsx',
-        'typescript',
-        'decorators-legacy',
-        'classProperties',
-        'objectRestSpread',
-        'functionBind',
-        'exportDefaultFrom',
-        'exportNamespaceFrom',
-        'dynamicImport',
-        'nullishCoalescingOperator',
-        'optionalChaining'
-      ]
-    });
+// `browserOnly` marks every definition as a web platform feature, as for CSS and HTML
+export const resolveFeatureMap = (
+  definitions: Record<string, FeatureDefinition>,
+  options: { browserOnly?: boolean } = {}
+): Record<string, FeatureSupport> =>
+  Object.fromEntries(
+    Object.entries(definitions).map(([key, entry]) => {
+      const definition = options.browserOnly ? { ...entry, browserOnly: true } : entry;
+      return [key, { id: key, remediation: remediationFor(key), ...definition, support: resolveSupport(key, definition) }];
+    })
+  );
+
+// Babel parser options, shared with the downlevel preview so both see the same syntax
+export const parserOptions = {
+  sourceType: 'module',
+  allowImportExportEverywhere: true,
+  allowReturnOutsideFunction: true,
+  plugins: [
+    'jsx',
+    'typescript',
+    'decorators',
+    'decoratorAutoAccessors',
+    'explicitResourceManagement',
+    'classProperties',
+    'objectRestSpread',
+    'functionBind',
+    'exportDefaultFrom',
+    'exportNamespaceFrom',
+    'dynamicImport',
+    'nullishCoalescingOperator',
+    'optionalChaining'
+  ]
+};
 
-    // Traverse the AST to detect features
-    traverse(ast, {
+// TypeScript's experimentalDecorators also decorate parameters, which standard decorators can't
+export const legacyDecoratorParserOptions = {
+  ...parserOptions,
+  plugins: parserOptions.plugins.map(plugin => plugin === 'decorators' ? 'decorators-legacy' : plugin)
+    .filter(plugin => plugin !== 'decoratorAutoAccessors')
+};
+
+// Most syntax errors stop Babel even in error-recovery mode; parsing again with the line blanked out is tried this many times
+const maxRecoveryAttempts = 20;
+// Errors Babel parses past that would still stop the traversal, since a scope can't hold two bindings of one name
+const untraversableErrors = new Set(['VarRedeclaration']);
+
+export interface ParsedSource {
+  ast: ReturnType<typeof parse>;
+  // Syntax errors parsed past, in the order they appear in the code
+  parseErrors: ParseError[];
+}
+
+// Parses in error-recovery mode, throwing the errors that leave an AST that can't be traversed
+const parseRecovering = (code: string, options: typeof parserOptions) => {
+  const ast = parse(code, { ...options, errorRecovery: true });
+  const errors = ast.errors ?? [];
+  const untraversable = errors.find(error => untraversableErrors.has(error.reasonCode));
+  if (untraversable) throw untraversable;
+  return { ast, errors };
+};
+
+// Blanks out the line containing an offset, keeping line breaks and offsets
+const blankLine = (code: string, offset: number) => {
+  const start = code.lastIndexOf('\n', offset - 1) + 1;
+  const end = code.indexOf('\n', offset) === -1 ? code.length : code.indexOf('\n', offset);
+  return code.slice(0, start) + code.slice(start, end).replace(/\S/g, ' ') + code.slice(end);
+};
+
+/**
+ * Parses with standard decorators, falling back to legacy ones for code only
+ * they accept. .ts files can't contain JSX, and need it off for `<Type>value`
+ * assertions to parse; code without a file name is also tried without JSX.
+ *
+ * Syntax errors don't stop the parse. Babel recovers from some itself; for
+ * any other, the line it is on is blanked out and the code parsed again, so
+ * the rest of the code is still analyzed. Offsets are kept, so snippets come
+ * from the original code. A CodeSyntaxError is thrown when that doesn't get
+ * past an error, as when the code ends inside an unclosed block.
+ */
+export function parseSource(code: string, filePath?: string): ParsedSource {
+  const withoutJsx = (options: typeof parserOptions) => ({ ...options, plugins: options.plugins.filter(plugin => plugin !== 'jsx') });
+  const candidates = filePath && isTypeScriptFile(filePath) && !/x$/i.test(filePath)
+    ? [withoutJsx(parserOptions), withoutJsx(legacyDecoratorParserOptions)]
+    : [parserOptions, legacyDecoratorParserOptions, ...(filePath ? [] : [withoutJsx(parserOptions)])];
+
+  const attempts = candidates.map(options => {
+    try {
+      return { options, ...parseRecovering(code, options) };
+    } catch (error) {
+      return { options, ast: null, errors: [], error };
+    }
+  });
+  const describe = (options: typeof parserOptions) => (error): ParseError =>
+    describeParseError(error, code, options.plugins.includes('jsx'));
+
+  const clean = attempts.find(attempt => attempt.ast && attempt.errors.length === 0);
+  if (clean) return { ast: clean.ast, parseErrors: [] };
+  const recovered = attempts.filter(attempt => attempt.ast).sort((a, b) => a.errors.length - b.errors.length)[0];
+  if (recovered) return { ast: recovered.ast, parseErrors: recovered.errors.map(describe(recovered.options)) };
+
+  // No options got past every error, so blank out the lines of errors with the first ones
+  const { options } = attempts[0];
+  const errors: ParseError[] = [];
+  let source = code;
+  let fatal = attempts[0].error;
+  for (let attempt = 1; ; attempt++) {
+    // Errors without a location aren't syntax errors
+    if (!fatal?.loc) throw fatal;
+    const error = describe(options)(fatal);
+    errors.push(error);
+    // Blanking can't get past an error at the end of the code, or on a line already blank
+    const blanked = blankLine(source, error.offset);
+    if (attempt > maxRecoveryAttempts || error.offset >= source.trimEnd().length || blanked === source) break;
+    source = blanked;
+
+    try {
+      const { ast, errors: recoveredErrors } = parseRecovering(source, options);
+      return { ast, parseErrors: [...errors, ...recoveredErrors.map(describe(options))].sort((a, b) => a.offset - b.offset) };
+    } catch (next) {
+      fatal = next;
+    }
+  }
+  throw new CodeSyntaxError(formatParseError(errors[errors.length - 1]), errors);
+}
+
+/**
+ * The built-in JavaScript detections. They're registered like any other
+ * detector, so a custom detector's features are reported the same way.
+ */
+const builtinDetector: Detector = {
+  name: 'builtin',
+  features: featureDefinitions,
+  visitor: ({ addFeature, addImport, runtime }) => {
+    const server = runtime === 'server';
+    // Request options are reported where they're set, rather than at the whole call
+    const addFetchOptions = (options) => literalProperties(options)
+      .filter(property => Object.hasOwn(fetchOptions, property.key.name))
+      .forEach(property => addFeature(fetchOptions[property.key.name], property.start, property.end));
+    return {
+      Program(path) {
+        const interpreter = path.node.interpreter;
+        if (interpreter) {
+          addFeature('hashbang', interpreter.start, interpreter.end);
+        }
+      },
       ArrowFunctionExpression(path) {
         addFeature('arrow-function', path.node.start, path.node.end);
         // Check for default parameters
@@ -1433,6 +1866,9 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
         if (path.node.kind === 'let') {
           addFeature('let-declaration', path.node.start, path.node.end);
         }
+        if (path.node.kind === 'using' || path.node.kind === 'await using') {
+          addFeature('explicit-resource-management', path.node.start, path.node.end);
+        }
       },
       TemplateLiteral(path) {
         addFeature('template-literal', path.node.start, path.node.end);
@@ -1502,43 +1938,78 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
         }
       },
       NewExpression(path) {
-        if (t.isIdentifier(path.node.callee)) {
-          const name = path.node.callee.name;
+        const name = globalReference(path.get('callee'));
+        if (name) {
+          // Only worked out for occurrences that are reported
+          const guarded = () => isGuarded(path, name);
           if (name === 'Promise') {
-            addFeature('promise', path.node.start, path.node.end);
+            addFeature('promise', path.node.start, path.node.end, guarded());
           }
           if (name === 'Map') {
-            addFeature('map-object', path.node.start, path.node.end);
+            addFeature('map-object', path.node.start, path.node.end, guarded());
           }
           if (name === 'Set') {
-            addFeature('set-object', path.node.start, path.node.end);
+            addFeature('set-object', path.node.start, path.node.end, guarded());
           }
           if (name === 'WeakMap') {
-            addFeature('weakmap', path.node.start, path.node.end);
+            addFeature('weakmap', path.node.start, path.node.end, guarded());
           }
           if (name === 'WeakSet') {
-            addFeature('weakset', path.node.start, path.node.end);
+            addFeature('weakset', path.node.start, path.node.end, guarded());
           }
           if (name === 'WeakRef') {
-            addFeature('weakref', path.node.start, path.node.end);
+            addFeature('weakref', path.node.start, path.node.end, guarded());
           }
           if (name === 'FinalizationRegistry') {
-            addFeature('finalizationregistry', path.node.start, path.node.end);
+            addFeature('finalizationregistry', path.node.start, path.node.end, guarded());
           }
           if (name === 'Proxy') {
-            addFeature('proxy', path.node.start, path.node.end);
+            addFeature('proxy', path.node.start, path.node.end, guarded());
           }
           if (name === 'SharedArrayBuffer') {
-            addFeature('sharedarraybuffer', path.node.start, path.node.end);
+            addFeature('sharedarraybuffer', path.node.start, path.node.end, guarded());
           }
           if (name === 'BigInt64Array') {
-            addFeature('bigint64array', path.node.start, path.node.end);
+            addFeature('bigint64array', path.node.start, path.node.end, guarded());
           }
           if (name === 'BigUint64Array') {
-            addFeature('biguint64array', path.node.start, path.node.end);
+            addFeature('biguint64array', path.node.start, path.node.end, guarded());
+          }
+          if (name === 'Float16Array') {
+            addFeature('float16array', path.node.start, path.node.end, guarded());
+          }
+          // A maxByteLength option makes the buffer resizable (or growable, when shared)
+          if ((name === 'ArrayBuffer' || name === 'SharedArrayBuffer') && path.node.arguments.length >= 2) {
+            if (literalProperties(path.node.arguments[1]).some(property => property.key.name === 'maxByteLength')) {
+              addFeature('resizable-arraybuffer', path.node.start, path.node.end, guarded());
+            }
           }
           if (name === 'AggregateError') {
-            addFeature('aggregate-error', path.node.start, path.node.end);
+            addFeature('aggregate-error', path.node.start, path.node.end, guarded());
+          }
+          if (name === 'AbortController') {
+            addFeature('abortcontroller', path.node.start, path.node.end, guarded());
+          }
+          if (name === 'IntersectionObserver') {
+            addFeature('intersectionobserver', path.node.start, path.node.end, guarded());
+          }
+          if (name === 'MutationObserver') {
+            addFeature('mutationobserver', path.node.start, path.node.end, guarded());
+          }
+          if (name === 'ResizeObserver') {
+            addFeature('resizeobserver', path.node.start, path.node.end, guarded());
+          }
+          if (name === 'URL') {
+            addFeature('url-constructor', path.node.start, path.node.end, guarded());
+          }
+          if (name === 'URLSearchParams') {
+            addFeature('urlsearchparams', path.node.start, path.node.end, guarded());
+          }
+          if (Object.hasOwn(webApiConstructors, name)) {
+            addFeature(webApiConstructors[name], path.node.start, path.node.end, guarded());
+          }
+          if (name === 'Request') {
+            addFetchOptions(path.node.arguments[1]);
           }
           // Check for Error with cause
           if (name === 'Error' && path.node.arguments.length >= 2) {
@@ -1552,14 +2023,16 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
         // Check for Intl.RelativeTimeFormat, Intl.ListFormat
         if (t.isMemberExpression(path.node.callee) && 
             t.isIdentifier(path.node.callee.object) && 
-            path.node.callee.object.name === 'Intl') {
+            path.node.callee.object.name === 'Intl' &&
+            isGlobal(path.scope, 'Intl')) {
           if (t.isIdentifier(path.node.callee.property)) {
             const intlFeature = path.node.callee.property.name;
+            const guarded = () => isGuarded(path, `Intl.${intlFeature}`) || isGuarded(path, 'Intl');
             if (intlFeature === 'RelativeTimeFormat') {
-              addFeature('intl-relativetimeformat', path.node.start, path.node.end);
+              addFeature('intl-relativetimeformat', path.node.start, path.node.end, guarded());
             }
             if (intlFeature === 'ListFormat') {
-              addFeature('intl-listformat', path.node.start, path.node.end);
+              addFeature('intl-listformat', path.node.start, path.node.end, guarded());
             }
           }
         }
@@ -1571,9 +2044,16 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
         addFeature('class-declaration', path.node.start, path.node.end);
       },
       ClassProperty(path) {
-        if (path.node.static) {
-          addFeature('static-class-fields', path.node.start, path.node.end);
-        }
+        // TypeScript erases declare and abstract fields
+        if (path.node.declare || path.node.abstract) return;
+        addFeature(path.node.static ? 'static-class-fields' : 'class-fields', path.node.start, path.node.end);
+      },
+      Decorator(path) {
+        addFeature('decorators', path.node.start, path.node.end);
+      },
+      TSParameterProperty(path) {
+        // Traversal doesn't visit the decorators of TypeScript parameter properties
+        path.node.decorators?.forEach(decorator => addFeature('decorators', decorator.start, decorator.end));
       },
       PrivateName(path) {
         addFeature('private-fields', path.node.start, path.node.end);
@@ -1612,10 +2092,13 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
         }
       },
       ObjectMethod() {
-        detectedFeatures.add('method-definition');
+        addFeature('method-definition');
       },
       ImportDeclaration(path) {
-        detectedFeatures.add('import-statement');
+        // TypeScript erases type-only imports, so the module is never loaded
+        if (path.node.importKind === 'type') return;
+        addFeature('import-statement', path.node.start, path.node.end);
+        addImport(path.node.source.value);
         
         // Check for import assertions/attributes
         if (path.node.attributes && path.node.attributes.length > 0) {
@@ -1627,61 +2110,100 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
           addFeature('import-assertions', path.node.start, path.node.end);
         }
       },
-      ExportNamedDeclaration() {
-        detectedFeatures.add('export-statement');
+      ExportNamedDeclaration(path) {
+        // Type exports are erased, and exports from a TypeScript namespace become properties of it
+        if (path.node.exportKind === 'type' || path.parentPath.isTSModuleBlock()) return;
+        addFeature('export-statement', path.node.start, path.node.end);
+        if (path.node.source) {
+          addImport(path.node.source.value);
+        }
       },
-      ExportDefaultDeclaration() {
-        detectedFeatures.add('export-statement');
+      ExportAllDeclaration(path) {
+        if (path.node.exportKind === 'type') return;
+        addFeature('export-statement', path.node.start, path.node.end);
+        addImport(path.node.source.value);
       },
-      Import() {
-        detectedFeatures.add('dynamic-import');
+      ExportDefaultDeclaration(path) {
+        addFeature('export-statement', path.node.start, path.node.end);
+      },
+      Import(path) {
+        // Only import() calls with a static specifier can be followed
+        const call = path.parentPath.node;
+        addFeature('dynamic-import', call.start, call.end);
+        if (t.isCallExpression(call)) {
+          const source = call.arguments[0];
+          if (t.isStringLiteral(source)) {
+            addImport(source.value);
+          } else if (t.isTemplateLiteral(source) && source.expressions.length === 0) {
+            addImport(source.quasis[0].value.cooked ?? source.quasis[0].value.raw);
+          }
+        }
       },
       NumericLiteral(path) {
         // Check for numeric separators
         if (path.node.extra && typeof path.node.extra.raw === 'string' && path.node.extra.raw.includes('_')) {
-          detectedFeatures.add('numeric-separators');
+          addFeature('numeric-separators');
         }
       },
       BigIntLiteral() {
-        detectedFeatures.add('bigint');
+        addFeature('bigint');
       },
-      CallExpression(path) {
-        if (t.isIdentifier(path.node.callee)) {
-          if (path.node.callee.name === 'Symbol') {
-            addFeature('symbol', path.node.start, path.node.end);
+      'CallExpression|OptionalCallExpression'(path) {
+        const calleeName = globalReference(path.get('callee'));
+        if (calleeName) {
+          const guarded = () => isGuarded(path, calleeName);
+          if (calleeName === 'Symbol') {
+            addFeature('symbol', path.node.start, path.node.end, guarded());
+          }
+          if (calleeName === 'structuredClone') {
+            addFeature('structuredclone', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'structuredClone') {
-            addFeature('structuredclone', path.node.start, path.node.end);
+          if (calleeName === 'fetch') {
+            addFeature('fetch-api', path.node.start, path.node.end, guarded());
+            addFetchOptions(path.node.arguments[1]);
           }
-          if (path.node.callee.name === 'fetch') {
-            addFeature('fetch-api', path.node.start, path.node.end);
+          if (calleeName === 'queueMicrotask') {
+            addFeature('queuemicrotask', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'queueMicrotask') {
-            addFeature('queuemicrotask', path.node.start, path.node.end);
+          if (calleeName === 'reportError') {
+            addFeature('reporterror', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'reportError') {
-            addFeature('reporterror', path.node.start, path.node.end);
+          if (calleeName === 'AbortController') {
+            addFeature('abortcontroller', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'AbortController') {
-            addFeature('abortcontroller', path.node.start, path.node.end);
+          if (calleeName === 'IntersectionObserver') {
+            addFeature('intersectionobserver', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'IntersectionObserver') {
-            addFeature('intersectionobserver', path.node.start, path.node.end);
+          if (calleeName === 'MutationObserver') {
+            addFeature('mutationobserver', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'MutationObserver') {
-            addFeature('mutationobserver', path.node.start, path.node.end);
+          if (calleeName === 'ResizeObserver') {
+            addFeature('resizeobserver', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'ResizeObserver') {
-            addFeature('resizeobserver', path.node.start, path.node.end);
+          if (calleeName === 'URL') {
+            addFeature('url-constructor', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'URL') {
-            addFeature('url-constructor', path.node.start, path.node.end);
+          if (calleeName === 'URLSearchParams') {
+            addFeature('urlsearchparams', path.node.start, path.node.end, guarded());
           }
-          if (path.node.callee.name === 'URLSearchParams') {
-            addFeature('urlsearchparams', path.node.start, path.node.end);
+          // Only a require() of an .mjs/.mts file is known to load an ES module
+          const [specifier] = path.node.arguments;
+          if (server && calleeName === 'require' && t.isStringLiteral(specifier) && /\.m[jt]s$/.test(specifier.value)) {
+            addFeature('require-esm', path.node.start, path.node.end);
           }
         }
         
+        // navigator.sendBeacon() and the storage manager, which can be detected by the method or its object
+        const apiName = globalPath(path.get('callee'));
+        if (apiName && Object.hasOwn(navigatorMethods, apiName)) {
+          const object = apiName.slice(0, apiName.lastIndexOf('.'));
+          const guarded = isGuarded(path, apiName) || isGuarded(path, object);
+          addFeature(navigatorMethods[apiName], path.node.start, path.node.end, guarded);
+        }
+        if (apiName?.startsWith('navigator.storageBuckets.')) {
+          addFeature('storage-buckets', path.node.start, path.node.end, isGuarded(path, 'navigator.storageBuckets'));
+        }
+
         // Check for various built-in methods
         if (t.isMemberExpression(path.node.callee)) {
           const object = path.node.callee.object;
@@ -1690,113 +2212,119 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
           if (t.isIdentifier(property)) {
             const methodName = property.name;
             
-            // Array methods
-            if (methodName === 'find') addFeature('array-find', path.node.start, path.node.end);
-            if (methodName === 'findIndex') addFeature('array-findindex', path.node.start, path.node.end);
-            if (methodName === 'findLast') addFeature('array-findlast', path.node.start, path.node.end);
-            if (methodName === 'findLastIndex') addFeature('array-findlastindex', path.node.start, path.node.end);
-            if (methodName === 'at') {
-              // Could be Array.at or String.at
-              addFeature('array-at', path.node.start, path.node.end);
-              addFeature('string-at', path.node.start, path.node.end);
+            // Instance methods, attributed by what the receiver is inferred to be
+            if (Object.hasOwn(instanceMethods, methodName)) {
+              const variants = instanceMethods[methodName];
+              const receiver = inferReceiverType(path.get('callee.object'));
+              const featureKeys = receiver === 'unknown'
+                ? Object.values(variants)
+                : receiver === 'other' ? [] : [variants[receiver]];
+              new Set(featureKeys).forEach(featureKey => {
+                if (featureKey) addFeature(featureKey, path.node.start, path.node.end);
+              });
             }
-            if (methodName === 'includes') {
-              // Could be Array.includes or String.includes
-              addFeature('array-includes', path.node.start, path.node.end);
-              addFeature('string-includes', path.node.start, path.node.end);
+
+            if (iteratorHelpers.includes(methodName) && inferReceiverType(path.get('callee.object')) === 'iterator') {
+              addFeature('iterator-helpers', path.node.start, path.node.end);
             }
-            if (methodName === 'flat') addFeature('array-flat', path.node.start, path.node.end);
-            if (methodName === 'flatMap') addFeature('array-flatmap', path.node.start, path.node.end);
-            if (methodName === 'startsWith') addFeature('string-startswith', path.node.start, path.node.end);
-            if (methodName === 'endsWith') addFeature('string-endswith', path.node.start, path.node.end);
-            if (methodName === 'repeat') addFeature('string-repeat', path.node.start, path.node.end);
-            if (methodName === 'padStart') addFeature('string-padstart', path.node.start, path.node.end);
-            if (methodName === 'padEnd') addFeature('string-padend', path.node.start, path.node.end);
-            if (methodName === 'replaceAll') addFeature('string-replaceall', path.node.start, path.node.end);
-            if (methodName === 'matchAll') addFeature('string-matchall', path.node.start, path.node.end);
-            if (methodName === 'trimStart') addFeature('string-trimstart', path.node.start, path.node.end);
-            if (methodName === 'trimEnd') addFeature('string-trimend', path.node.start, path.node.end);
-            if (methodName === 'toReversed') addFeature('array-toreversed', path.node.start, path.node.end);
-            if (methodName === 'toSorted') addFeature('array-tosorted', path.node.start, path.node.end);
-            if (methodName === 'toSpliced') addFeature('array-tospliced', path.node.start, path.node.end);
-            if (methodName === 'with') addFeature('array-with', path.node.start, path.node.end);
             
-            // Static methods
-            if (t.isIdentifier(object)) {
+            // Static methods, unless the object is a local binding with the same name
+            if (t.isIdentifier(object) && isGlobal(path.scope, object.name)) {
+              // Either the method or, for APIs like Reflect and crypto, the object can be feature-detected
+              const guarded = () => isGuarded(path, `${object.name}.${methodName}`) || isGuarded(path, object.name);
               if (object.name === 'Array') {
-                if (methodName === 'from') addFeature('array-from', path.node.start, path.node.end);
-                if (methodName === 'fromAsync') addFeature('array-fromasync', path.node.start, path.node.end);
+                if (methodName === 'from') addFeature('array-from', path.node.start, path.node.end, guarded());
+                if (methodName === 'fromAsync') addFeature('array-fromasync', path.node.start, path.node.end, guarded());
               }
               if (object.name === 'Object') {
-                if (methodName === 'assign') addFeature('object-assign', path.node.start, path.node.end);
-                if (methodName === 'keys') addFeature('object-keys', path.node.start, path.node.end);
-                if (methodName === 'values') addFeature('object-values', path.node.start, path.node.end);
-                if (methodName === 'entries') addFeature('object-entries', path.node.start, path.node.end);
-                if (methodName === 'fromEntries') addFeature('object-fromentries', path.node.start, path.node.end);
-                if (methodName === 'hasOwn') addFeature('object-hasown', path.node.start, path.node.end);
-                if (methodName === 'groupBy') addFeature('object-groupby', path.node.start, path.node.end);
+                if (methodName === 'assign') addFeature('object-assign', path.node.start, path.node.end, guarded());
+                if (methodName === 'keys') addFeature('object-keys', path.node.start, path.node.end, guarded());
+                if (methodName === 'values') addFeature('object-values', path.node.start, path.node.end, guarded());
+                if (methodName === 'entries') addFeature('object-entries', path.node.start, path.node.end, guarded());
+                if (methodName === 'fromEntries') addFeature('object-fromentries', path.node.start, path.node.end, guarded());
+                if (methodName === 'hasOwn') addFeature('object-hasown', path.node.start, path.node.end, guarded());
+                if (methodName === 'groupBy') addFeature('object-groupby', path.node.start, path.node.end, guarded());
               }
               if (object.name === 'Promise') {
-                if (methodName === 'allSettled') addFeature('promise-allsettled', path.node.start, path.node.end);
-                if (methodName === 'any') addFeature('promise-any', path.node.start, path.node.end);
+                if (methodName === 'allSettled') addFeature('promise-allsettled', path.node.start, path.node.end, guarded());
+                if (methodName === 'any') addFeature('promise-any', path.node.start, path.node.end, guarded());
+                if (methodName === 'withResolvers') addFeature('promise-withresolvers', path.node.start, path.node.end, guarded());
+              }
+              if (object.name === 'Iterator' && methodName === 'from') {
+                addFeature('iterator-from', path.node.start, path.node.end, guarded());
+              }
+              if (object.name === 'RegExp' && methodName === 'escape') {
+                addFeature('regexp-escape', path.node.start, path.node.end, guarded());
+              }
+              if (object.name === 'Error' && methodName === 'isError') {
+                addFeature('error-iserror', path.node.start, path.node.end, guarded());
+              }
+              if (object.name === 'Math') {
+                if (methodName === 'sumPrecise') addFeature('math-sumprecise', path.node.start, path.node.end, guarded());
+                if (methodName === 'f16round') addFeature('float16array', path.node.start, path.node.end, guarded());
+              }
+              if (object.name === 'Float16Array') {
+                addFeature('float16array', path.node.start, path.node.end, guarded());
               }
               if (object.name === 'Reflect') {
-                addFeature('reflect', path.node.start, path.node.end);
+                addFeature('reflect', path.node.start, path.node.end, guarded());
               }
               if (object.name === 'JSON' && methodName === 'parse') {
                 // Check if it has a third parameter (source)
                 if (path.node.arguments.length >= 3) {
-                  addFeature('json-parse-reviver', path.node.start, path.node.end);
+                  addFeature('json-parse-reviver', path.node.start, path.node.end, guarded());
                 }
               }
               if (object.name === 'Atomics') {
-                addFeature('atomics', path.node.start, path.node.end);
+                addFeature('atomics', path.node.start, path.node.end, guarded());
               }
               if (object.name === 'crypto') {
-                if (methodName === 'getRandomValues') addFeature('crypto-getrandomvalues', path.node.start, path.node.end);
-                if (methodName === 'randomUUID') addFeature('crypto-randomuuid', path.node.start, path.node.end);
+                if (methodName === 'getRandomValues') addFeature('crypto-getrandomvalues', path.node.start, path.node.end, guarded());
+                if (methodName === 'randomUUID') addFeature('crypto-randomuuid', path.node.start, path.node.end, guarded());
               }
               if (object.name === 'performance' && methodName === 'now') {
-                addFeature('performance-now', path.node.start, path.node.end);
+                addFeature('performance-now', path.node.start, path.node.end, guarded());
+              }
+              if (server && object.name === 'process' && methodName === 'getBuiltinModule') {
+                addFeature('process-getbuiltinmodule', path.node.start, path.node.end, guarded());
               }
-            }
-            
-            // Check for String methods (ES2024)
-            if (methodName === 'isWellFormed') addFeature('string-iswellformed', path.node.start, path.node.end);
-            if (methodName === 'toWellFormed') addFeature('string-towellformed', path.node.start, path.node.end);
-            
-            // TypedArray methods
-            if (methodName === 'at') {
-              // Could be Array.at, String.at, or TypedArray.at
-              addFeature('array-at', path.node.start, path.node.end);
-              addFeature('string-at', path.node.start, path.node.end);
-              addFeature('typedarray-at', path.node.start, path.node.end);
-            }
-            if (methodName === 'with') {
-              // Could be Array.with or TypedArray.with
-              addFeature('array-with', path.node.start, path.node.end);
-              addFeature('typedarray-with', path.node.start, path.node.end);
             }
           }
         }
       },
       // Check for new global objects and APIs
       MemberExpression(path) {
-        if (t.isIdentifier(path.node.object) && path.node.object.name === 'globalThis') {
+        const objectName = globalReference(path.get('object'));
+        const guarded = () => isGuarded(path, objectName);
+        if (objectName === 'globalThis') {
           addFeature('globalthis', path.node.start, path.node.end);
         }
         if (t.isIdentifier(path.node.object) && path.node.object.name === 'import' && 
             t.isIdentifier(path.node.property) && path.node.property.name === 'meta') {
           addFeature('import-meta', path.node.start, path.node.end);
         }
-        if (t.isIdentifier(path.node.object) && path.node.object.name === 'localStorage') {
-          addFeature('localstorage', path.node.start, path.node.end);
+        if (objectName === 'localStorage') {
+          addFeature('localstorage', path.node.start, path.node.end, guarded());
+        }
+        if (objectName === 'sessionStorage') {
+          addFeature('sessionstorage', path.node.start, path.node.end, guarded());
+        }
+        if (objectName === 'indexedDB') {
+          addFeature('indexeddb', path.node.start, path.node.end, guarded());
+        }
+        if (objectName === 'caches') {
+          addFeature('cache-api', path.node.start, path.node.end, guarded());
+        }
+        if (objectName === 'Temporal') {
+          addFeature('temporal', path.node.start, path.node.end, guarded());
         }
-        if (t.isIdentifier(path.node.object) && path.node.object.name === 'sessionStorage') {
-          addFeature('sessionstorage', path.node.start, path.node.end);
+        // Globals every browser has, but server runtimes added later
+        if (server && objectName === 'navigator') {
+          addFeature('navigator-global', path.node.start, path.node.end, guarded());
         }
-        if (t.isIdentifier(path.node.object) && path.node.object.name === 'indexedDB') {
-          addFeature('indexeddb', path.node.start, path.node.end);
+        if (server && t.isMetaProperty(path.node.object) && path.node.object.meta.name === 'import' &&
+            t.isIdentifier(path.node.property) && ['dirname', 'filename'].includes(path.node.property.name)) {
+          addFeature('import-meta-dirname', path.node.start, path.node.end);
         }
       },
       // Check for regular expression features
@@ -1838,82 +2366,365 @@ export async function analyzeCode(code: string): Promise<AnalysisResult> {
       ClassPrivateMethod(path) {
         addFeature('private-methods', path.node.start, path.node.end);
       }
-    });
+    };
+  }
+};
 
-    // Build the result
-    const features = Array.from(detectedFeatures)
-      .map(featureKey => {
-        const featureSupport = featureMap[featureKey];
-        if (!featureSupport) return null;
-        
-        const snippets = featureSnippets.get(featureKey);
-        const codeSnippets = snippets ? Array.from(snippets) : [];
-        
-        return {
-          ...featureSupport,
-          codeSnippets
-        };
-      })
-      .filter(Boolean) as DetectedFeature[];
-
-    const modernFeatures = features.filter(feature => 
-      feature.support.ie === 'No' || feature.support.ie.includes('*')
-    ).length;
-
-    const legacySupport = features.every(feature => 
-      feature.support.ie !== 'No'
+// Registered detectors by name, with the features each one defines
+const detectors: Map<string, { detector: Detector; features: Record<string, FeatureSupport> }> = new Map();
+let featureMap: Record<string, FeatureSupport> = {};
+
+/**
+ * Adds a detector to every later analyzeCode call, replacing a registered
+ * detector of the same name. Throws when a feature's support data can't be
+ * resolved, or when another detector already defines one of its feature ids.
+ */
+export function registerDetector(detector: Detector): void {
+  validateDetector(detector);
+  const definitions = Object.fromEntries(Object.entries(detector.features ?? {}).map(([featureKey, feature]) => {
+    const definition = { ...feature };
+    delete definition.match;
+    return [featureKey, definition];
+  }));
+  const features = resolveFeatureMap(definitions);
+
+  Object.keys(features).forEach(featureKey => {
+    const owner = Array.from(detectors.values()).find(registered =>
+      registered.detector.name !== detector.name && Object.hasOwn(registered.features, featureKey)
     );
+    if (owner) {
+      throw new Error(`Feature '${featureKey}' from detector '${detector.name}' is already defined by detector '${owner.detector.name}'`);
+    }
+  });
 
-    // Calculate minimum browser versions needed to support ALL features
-    const calculateMinimumVersions = (features: FeatureSupport[]) => {
-      const browsers = ['chrome', 'firefox', 'safari', 'edge', 'ie'] as const;
-      const minimumVersions: Record<string, string> = {};
-
-      browsers.forEach(browser => {
-        const versions = features
-          .map(feature => feature.support[browser])
-          .filter(version => version !== 'No')
-          .map(version => {
-            // Extract numeric version, handling special cases
-            if (version.includes('*')) {
-              return parseFloat(version.replace(/[^0-9.]/g, ''));
-            }
-            return parseFloat(version.replace(/[^0-9.]/g, ''));
-          })
-          .filter(version => !isNaN(version));
-
-        if (versions.length === 0) {
-          minimumVersions[browser] = 'No';
-        } else {
-          // Find the highest version required by any feature
-          // This is the minimum version needed to support ALL detected features
-          const requiredVersion = Math.max(...versions);
-          minimumVersions[browser] = requiredVersion.toString() + '+';
-        }
-      });
+  detectors.set(detector.name, { detector, features });
+  featureMap = Object.assign({}, ...Array.from(detectors.values()).map(registered => registered.features));
+}
+
+export const registeredDetectors = (): Detector[] => Array.from(detectors.values()).map(registered => registered.detector);
+
+// Support data for a feature id, built in or from a registered detector
+export const featureSupport = (id: string): FeatureSupport | undefined => featureMap[id];
+
+registerDetector(builtinDetector);
+
+// Progress is reported at most this often (in milliseconds), so reporting doesn't slow the traversal down
+const progressInterval = 100;
 
-      return minimumVersions as {
-        chrome: string;
-        firefox: string;
-        safari: string;
-        edge: string;
-        ie: string;
+// A visitor reporting how far the traversal is, with a partial result when features were found since the last report
+const progressVisitor = (
+  code: string,
+  collector: SnippetCollector,
+  summarise: () => AnalysisResult,
+  onProgress: (progress: AnalysisProgress) => void
+): Visitor => {
+  let lastReport = Date.now();
+  let reportedFeatures = 0;
+  let completed = 0;
+  return {
+    enter(path) {
+      completed = Math.max(completed, (path.node.start ?? 0) / Math.max(code.length, 1));
+      if (Date.now() - lastReport < progressInterval) return;
+      const found = collector.featureKeys().length;
+      const partial = found > reportedFeatures ? summarise() : undefined;
+      reportedFeatures = found;
+      onProgress({ phase: 'traverse', completed, ...(partial ? { partial } : {}) });
+      lastReport = Date.now();
+    }
+  };
+};
+
+export async function analyzeCode(code: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const browsers = selectBrowsers(options.browsers, options.runtime);
+  const targetQuery = options.targets?.trim();
+  const targetBrowsers = targetQuery ? await resolveTargets(targetQuery) : null;
+  const buildBrowsers = options.build?.targets ? await resolveTargets(options.build.targets) : null;
+
+  const inlineSourceMapURL = options.sourceMap ? null : findSourceMappingURL(code);
+  const sourceMap = options.sourceMap ?? (inlineSourceMapURL ? decodeInlineSourceMap(inlineSourceMapURL) : null);
+  const mapSnippet = sourceMap ? createSnippetMapper(sourceMap) : null;
+
+  const collector = createSnippetCollector(code, { filePath: options.filePath, maxOccurrences: options.maxOccurrences });
+  const imports: Set<string> = new Set();
+
+  try {
+    // Parse the code with Babel
+    options.onProgress?.({ phase: 'parse' });
+    const fileName = options.filePath ?? options.fileName;
+    const { ast, parseErrors } = parseSource(code, fileName);
+    // Syntax tsc compiles for the tsconfig target never reaches the browser
+    const typescript = options.typescript && compilesFile(options.typescript, fileName) ? options.typescript : undefined;
+
+    // Build the result from the features found so far
+    const summarise = (): AnalysisResult => {
+      const features = collector.featureKeys()
+        .map(featureKey => {
+          const featureSupport = featureMap[featureKey];
+          if (!featureSupport) return null;
+
+          const codeSnippets = collector.snippets(featureKey);
+          const omitted = collector.omitted(featureKey);
+          return {
+            ...featureSupport,
+            codeSnippets: mapSnippet ? codeSnippets.map(mapSnippet) : [...codeSnippets],
+            ...(omitted > 0 ? { omittedOccurrences: omitted } : {})
+          };
+        })
+        .filter(Boolean) as DetectedFeature[];
+
+      if (typescript) {
+        const compiled = compiledSyntax(typescript);
+        features.forEach(feature => {
+          if (compiled.includes(feature.id)) feature.compiledBy = 'TypeScript';
+        });
+      }
+
+      const polyfilled = applyPolyfills(features, Array.from(imports), options.polyfills);
+      const built = options.build ? applyBuild(polyfilled, options.build, buildBrowsers) : null;
+      const result = buildAnalysisResult(
+        built?.features ?? polyfilled,
+        targetQuery && targetBrowsers ? { query: targetQuery, browsers: targetBrowsers } : undefined,
+        { browsers, runtime: options.runtime, typescript }
+      );
+      return {
+        ...result,
+        ...(built ? { build: built.summary } : {}),
+        language: 'javascript',
+        imports: Array.from(imports),
+        ...(parseErrors.length > 0 ? { parseErrors } : {})
       };
     };
 
-    const minimumVersions = calculateMinimumVersions(features);
-
-    return {
-      features,
-      summary: {
-        totalFeatures: features.length,
-        modernFeatures,
-        legacySupport
-      },
-      minimumVersions
+    // Traverse the AST once with every registered detector
+    const context: DetectorContext = {
+      addFeature: collector.add,
+      addImport: specifier => imports.add(specifier),
+      runtime: options.runtime ?? 'browser'
     };
+    const visitors = Array.from(detectors.values()).map(({ detector }) => detectorVisitor(detector, context));
+    if (options.onProgress) visitors.push(progressVisitor(code, collector, summarise, options.onProgress));
+    traverse(ast, traverse.visitors.merge(visitors));
+
+    options.onProgress?.({ phase: 'aggregate' });
+    return summarise();
 
   } catch (error) {
-    throw new Error(`Failed to parse JavaScript code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const message = `Failed to parse JavaScript code: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    throw error instanceof CodeSyntaxError ? new CodeSyntaxError(message, error.parseErrors) : new Error(message);
+  }
+}
+
+/**
+ * Merges each feature's occurrences across several sets of detected features, by feature id.
+ * Snippets past `maxOccurrences` are dropped and counted in omittedOccurrences, keeping an
+ * unguarded one as for a single file. Target and polyfill results are dropped so they can be recomputed for the merged
+ * features. A feature stays compiled only if it is in every file that uses it.
+ */
+export function mergeFeatures(featureLists: DetectedFeature[][], maxOccurrences = defaultMaxOccurrences): DetectedFeature[] {
+  const merged: Map<string, DetectedFeature> = new Map();
+  featureLists.forEach(features => {
+    features.forEach(feature => {
+      const existing = merged.get(feature.id);
+      const snippets = existing ? [...existing.codeSnippets, ...feature.codeSnippets] : feature.codeSnippets;
+      const omitted = (existing?.omittedOccurrences ?? 0) + (feature.omittedOccurrences ?? 0) +
+        Math.max(snippets.length - maxOccurrences, 0);
+      const kept = snippets.slice(0, maxOccurrences);
+      // As when collecting, an unguarded use past the limit replaces a guarded snippet when all
+      // the kept ones are guarded, or the feature would wrongly count as guarded
+      const unguarded = snippets.slice(maxOccurrences).find(snippet => !snippet.guarded);
+      if (unguarded && kept.every(snippet => snippet.guarded)) kept[kept.length - 1] = unguarded;
+      merged.set(feature.id, {
+        ...feature,
+        codeSnippets: kept,
+        ...(omitted > 0 ? { omittedOccurrences: omitted } : {}),
+        compiledBy: existing && !existing.compiledBy ? undefined : feature.compiledBy,
+        unsupportedTargets: undefined,
+        unknownTargets: undefined,
+        polyfilledBy: undefined,
+        guarded: undefined,
+        unavailableIn: undefined
+      });
+    });
+  });
+  return Array.from(merged.values());
+}
+
+/**
+ * The minimum version of one browser that supports all of `features`: the
+ * highest version any of them needs, partial or prefixed if any of them is.
+ * Versions such as '13.1' and '13.10' are compared part by part. With no
+ * features to require, any version will do.
+ */
+function minimumSupport(features: DetectedFeature[], browser: string): SupportStatement {
+  if (features.length === 0) return { added: null, any: true };
+  const statements = features.map(feature => feature.support[browser]);
+
+  // No version runs the code while one feature is missing or has since been removed
+  const unsupported = statements.filter(statement => !isSupported(statement));
+  if (unsupported.length > 0) {
+    return unsupported.every(statement => statement.flag) ? { added: null, flag: true } : { added: null };
   }
+  const added = statements
+    .map(statement => statement.added!)
+    .reduce((highest, version) => compareVersions(version, highest) > 0 ? version : highest);
+  const minimum: SupportStatement = { added };
+
+  const partial = features.filter(feature => feature.support[browser].partial).map(feature => feature.feature);
+  if (partial.length > 0) minimum.partial = { reason: `Partial support for ${partial.join(', ')}` };
+  const prefixes = Array.from(new Set(statements.map(statement => statement.prefix).filter(Boolean)));
+  if (prefixes.length > 0) minimum.prefix = prefixes.join(', ');
+  return minimum;
+}
+
+// The version a feature needs in a browser, or null when no current version has it
+const requiredVersion = (statement: SupportStatement) => isSupported(statement) ? statement.added : null;
+
+// Orders required versions from least to most demanding, with null (unsupported) last
+const compareRequired = (a: string | null, b: string | null) => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return compareVersions(a, b);
+};
+
+const featureLocations = (snippets: CodeSnippet[]): FeatureLocation[] => {
+  const locations = new Map<string, FeatureLocation>();
+  snippets.forEach(snippet => {
+    const location = { file: snippet.file, line: snippet.matchLine, column: snippet.matchCol + 1 };
+    locations.set(`${location.file}:${location.line}:${location.column}`, location);
+  });
+  return Array.from(locations.values());
+};
+
+/**
+ * Explains one browser's minimum version: the features that set it, and the
+ * minimum that would remain after removing (or transpiling) the most demanding
+ * features, one group of equally demanding features at a time.
+ */
+function explainMinimum(features: DetectedFeature[], browser: string): MinimumVersionExplanation {
+  const levels: DetectedFeature[][] = [];
+  [...features]
+    .sort((a, b) => compareRequired(requiredVersion(b.support[browser]), requiredVersion(a.support[browser])))
+    .forEach(feature => {
+      const level = levels[levels.length - 1];
+      if (level && compareRequired(requiredVersion(level[0].support[browser]), requiredVersion(feature.support[browser])) === 0) {
+        level.push(feature);
+      } else {
+        levels.push([feature]);
+      }
+    });
+
+  return {
+    drivers: (levels[0] ?? []).map(feature => ({
+      id: feature.id,
+      feature: feature.feature,
+      support: feature.support[browser],
+      locations: featureLocations(feature.codeSnippets),
+      ...(feature.omittedOccurrences ? { omittedOccurrences: feature.omittedOccurrences } : {})
+    })),
+    reductions: levels.slice(0, -1).map((level, index) => ({
+      features: level.map(feature => ({ id: feature.id, feature: feature.feature })),
+      minimum: minimumSupport(levels.slice(index + 1).flat(), browser)
+    }))
+  };
+}
+
+/**
+ * Summarises a set of detected features into an AnalysisResult. Shared by
+ * single-file analysis and project analysis, which merges features across files.
+ * Minimum versions are calculated for `browsers`, a list checked by selectBrowsers.
+ */
+export function buildAnalysisResult(
+  features: DetectedFeature[],
+  target?: { query: string; browsers: string[] },
+  { browsers = defaultBrowsers, runtime = 'browser', typescript }: { browsers?: string[]; runtime?: Runtime; typescript?: TypeScriptOptions } = {}
+): AnalysisResult {
+  const modernFeatures = features.filter(feature => 
+    feature.support.ie.added === null || feature.support.ie.partial
+  ).length;
+
+  const legacySupport = features.every(feature => 
+    isSupported(feature.support.ie)
+  );
+
+  // Features used only behind feature detection are progressive enhancements
+  features.forEach(feature => {
+    feature.guarded = feature.codeSnippets.length > 0 && feature.codeSnippets.every(snippet => snippet.guarded) ? true : undefined;
+  });
+
+  // Polyfilled, guarded and compiled features work without native support, so they don't raise the minimum versions
+  const required = features.filter(feature => !feature.polyfilledBy && !feature.guarded && !feature.compiledBy);
+
+  // On the server, APIs a runtime doesn't have at all can't be fixed by raising its version
+  if (runtime === 'server') {
+    const runtimes = browsers.filter(browser => browserDefinitions[browser].kind === 'runtime');
+    required.forEach(feature => {
+      const unavailableIn = runtimes.filter(browser => !isSupported(feature.support[browser]));
+      if (unavailableIn.length > 0) feature.unavailableIn = unavailableIn;
+    });
+  }
+
+  // Calculate minimum browser versions needed to support ALL features, and what sets them.
+  // Runtimes lacking an API are reported through unavailableIn instead.
+  const minimumVersions: SupportTable = {};
+  const minimumVersionReasons: Record<string, MinimumVersionExplanation> = {};
+  browsers.forEach(browser => {
+    const applicable = required.filter(feature => !feature.unavailableIn?.includes(browser));
+    minimumVersions[browser] = minimumSupport(applicable, browser);
+    minimumVersionReasons[browser] = explainMinimum(applicable, browser);
+  });
+
+  // Check every feature that's needed natively against each browser in the target query
+  let targets: TargetEvaluation | undefined;
+  if (target) {
+    required.forEach(feature => {
+      const results = target.browsers.map(target => ({ target, result: checkTarget(feature, target) }));
+      feature.unsupportedTargets = results.filter(({ result }) => result === 'unsupported').map(({ target }) => target);
+      feature.unknownTargets = results.filter(({ result }) => result === 'unknown').map(({ target }) => target);
+    });
+
+    const failingFeatures = required.filter(feature => feature.unsupportedTargets!.length > 0).length;
+    targets = {
+      query: target.query,
+      browsers: target.browsers,
+      passed: failingFeatures === 0,
+      failingFeatures,
+      unknownTargets: target.browsers.filter(browser => required.some(feature => feature.unknownTargets!.includes(browser)))
+    };
+  }
+
+  // Unlike used features, lib warnings are about the configuration, so they don't fail the targets
+  let typescriptSummary: TypeScriptSummary | undefined;
+  if (typescript) {
+    const libWarnings = target ? libApis(typescript)
+      .filter(({ id }) => Object.hasOwn(featureMap, id))
+      .map(({ lib, id }) => ({
+        lib,
+        id,
+        feature: featureMap[id].feature,
+        unsupportedTargets: target.browsers.filter(browser => checkTarget(featureMap[id], browser) === 'unsupported')
+      }))
+      .filter(warning => warning.unsupportedTargets.length > 0) : [];
+    typescriptSummary = { target: normalizeTarget(typescript.target), libWarnings };
+  }
+
+  return {
+    features,
+    summary: {
+      totalFeatures: features.length,
+      modernFeatures,
+      legacySupport,
+      polyfilledFeatures: features.filter(feature => feature.polyfilledBy).length,
+      guardedFeatures: features.filter(feature => feature.guarded && !feature.polyfilledBy).length,
+      unavailableFeatures: features.filter(feature => feature.unavailableIn).length,
+      compiledFeatures: features.filter(feature => feature.compiledBy).length
+    },
+    runtime,
+    browsers,
+    minimumVersions,
+    minimumVersionReasons,
+    caniuseVersion,
+    targets,
+    ...(typescriptSummary ? { typescript: typescriptSummary } : {})
+  };
 }
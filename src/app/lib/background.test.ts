@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { AnalysisProgress } from './analyzer';
+import { analyzeInBackground } from './background';
+import { CodeSyntaxError } from './diagnostics';
+
+// Node has no Web Workers, so worker.ts runs in-process: requests go straight to the
+// handler it registers, and what it posts back goes to the latest worker, as the tests run one at a time
+let handleRequest: (event: { data: unknown }) => void;
+const workers: FakeWorker[] = [];
+
+class FakeWorker {
+  listeners: Record<string, ((event) => void)[]> = { message: [], error: [] };
+  terminated = false;
+
+  constructor() {
+    workers.push(this);
+  }
+
+  addEventListener(type: string, listener: (event) => void) {
+    this.listeners[type].push(listener);
+  }
+
+  postMessage(data: unknown) {
+    setTimeout(() => handleRequest({ data }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  emit(type: string, event) {
+    if (!this.terminated) this.listeners[type].forEach(listener => listener(event));
+  }
+}
+
+Object.assign(globalThis, {
+  Worker: FakeWorker,
+  addEventListener: (type: string, listener) => { handleRequest = listener; },
+  postMessage: (data: unknown) => workers[workers.length - 1].emit('message', { data })
+});
+
+describe('background analysis', () => {
+  before(async () => {
+    await import('./worker');
+  });
+
+  it('resolves with the analysis and reports progress', async () => {
+    const progress: AnalysisProgress[] = [];
+    const result = await analyzeInBackground('[1].at(-1);', {}, { onProgress: update => progress.push(update) });
+    assert.deepEqual(result.features.map(feature => feature.id), ['array-at']);
+    assert.equal(progress[0].phase, 'parse');
+    assert.equal(progress[progress.length - 1].phase, 'aggregate');
+    assert.equal(workers[workers.length - 1].terminated, true);
+  });
+
+  it('rejects with the parse errors when the code can\'t be parsed', async () => {
+    await assert.rejects(analyzeInBackground('function f() {\n'), (error: unknown) => {
+      assert.ok(error instanceof CodeSyntaxError);
+      assert.equal(error.parseErrors[0].line, 2);
+      return true;
+    });
+  });
+
+  it('cancels with the signal\'s reason and stops the worker', async () => {
+    const aborted = new AbortController();
+    aborted.abort(new Error('Cancelled early'));
+    const count = workers.length;
+    await assert.rejects(analyzeInBackground('[1].at(-1);', {}, { signal: aborted.signal }), /Cancelled early/);
+    assert.equal(workers.length, count);
+
+    const controller = new AbortController();
+    const analysis = analyzeInBackground('[1].at(-1);', {}, { signal: controller.signal });
+    controller.abort(new Error('Cancelled'));
+    await assert.rejects(analysis, /Cancelled/);
+    assert.equal(workers[workers.length - 1].terminated, true);
+  });
+});
@@ -0,0 +1,63 @@
+import type { AnalysisProgress, AnalysisResult } from './analyzer';
+import { CodeSyntaxError } from './diagnostics';
+import type { AnalyzeSourceOptions } from './source';
+import type { WorkerRequest, WorkerResponse } from './worker';
+
+export interface BackgroundOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Milliseconds to wait for the result before giving up; no limit when omitted
+  timeout?: number;
+  // Aborting cancels the analysis
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs analyzeSource in a Web Worker so large inputs don't block the page.
+ * Every call gets its own worker, which is terminated once the analysis
+ * finishes, is cancelled or times out: a traversal can't be interrupted any
+ * other way. Cancelling rejects with the signal's reason, and code that can't
+ * be parsed with a CodeSyntaxError, as analyzeSource does.
+ */
+export function analyzeInBackground(
+  code: string,
+  options: Omit<AnalyzeSourceOptions, 'onProgress'> = {},
+  { onProgress, timeout, signal }: BackgroundOptions = {}
+): Promise<AnalysisResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('./worker.ts', import.meta.url));
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (finish: () => void) => {
+      worker.terminate();
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      finish();
+    };
+    const onAbort = () => settle(() => reject(signal!.reason));
+
+    signal?.addEventListener('abort', onAbort);
+    if (timeout !== undefined) {
+      timer = setTimeout(() => settle(() => reject(new Error(`Analysis timed out after ${timeout / 1000} seconds`))), timeout);
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') onProgress?.(response.progress);
+      else if (response.type === 'result') settle(() => resolve(response.analysis));
+      else settle(() => reject(response.parseErrors
+        ? new CodeSyntaxError(response.message, response.parseErrors)
+        : new Error(response.message)));
+    });
+    worker.addEventListener('error', event => {
+      settle(() => reject(new Error(event.message || 'The analysis worker failed to start')));
+    });
+
+    const request: WorkerRequest = { code, options };
+    worker.postMessage(request);
+  });
+}
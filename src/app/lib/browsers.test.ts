@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+import { defaultBrowsers, deriveSupport, selectBrowsers } from './browsers';
+import { formatSupport } from './support';
+
+describe('browser selection', () => {
+  it('keeps the order given and falls back to the defaults', () => {
+    assert.deepEqual(selectBrowsers(['safari', 'ios_saf', 'safari']), ['safari', 'ios_saf']);
+    assert.deepEqual(selectBrowsers([]), defaultBrowsers);
+    assert.deepEqual(selectBrowsers(undefined, 'server'), ['node']);
+  });
+
+  it('rejects unknown browser ids', () => {
+    assert.throws(() => selectBrowsers(['chrome', 'netscape']), /Unknown browser 'netscape', expected one of: chrome, firefox/);
+  });
+});
+
+describe('derived support', () => {
+  it('follows a tracked browser from the version it starts tracking', () => {
+    assert.deepEqual(deriveSupport('android', { chrome: { added: '30' } }), { added: '37' });
+    assert.deepEqual(deriveSupport('android', { chrome: { added: '92', partial: {} } }), { added: '92', partial: {} });
+    assert.deepEqual(deriveSupport('and_ff', { firefox: { added: null } }), { added: null });
+  });
+
+  it('maps engine versions to the first release that ships them', () => {
+    assert.deepEqual(deriveSupport('node', { chrome: { added: '92' } }), { added: '17' });
+    assert.deepEqual(deriveSupport('opera', { chrome: { added: '85' } }), { added: '71' });
+    assert.deepEqual(deriveSupport('node', { chrome: { added: '50', removed: '60' } }), { added: '6', removed: '9' });
+  });
+
+  it('doesn\'t carry flags or notes over to another browser', () => {
+    assert.deepEqual(deriveSupport('node', { chrome: { added: null, flag: true } }), { added: null });
+    assert.deepEqual(deriveSupport('samsung', { chrome: { added: '80', notes: 'Chrome only' } }), { added: '13.0' });
+  });
+});
+
+describe('browser columns', () => {
+  it('reports minimum versions for the chosen browsers', async () => {
+    const result = await analyzeCode('[1].at(-1);', { browsers: ['ios_saf', 'and_chr', 'samsung', 'opera'] });
+    assert.deepEqual(result.browsers, ['ios_saf', 'and_chr', 'samsung', 'opera']);
+    assert.deepEqual(result.browsers.map(browser => formatSupport(result.minimumVersions[browser])), ['15.4+', '92+', '16.0+', '78+']);
+  });
+});
+
+describe('server runtimes', () => {
+  const runtimes = { runtime: 'server' as const, browsers: ['node', 'deno', 'bun'] };
+  const minimums = result => result.browsers.map(browser => formatSupport(result.minimumVersions[browser]));
+
+  it('reports the runtime versions the code needs', async () => {
+    const result = await analyzeCode('const dir = import.meta.dirname;\n[1].at(0);\n', runtimes);
+    assert.ok(result.features.some(feature => feature.id === 'import-meta-dirname'));
+    assert.deepEqual(minimums(result), ['20.11+', '1.40+', '1.1+']);
+  });
+
+  it('lists the runtimes without a web API instead of raising their minimum', async () => {
+    const result = await analyzeCode('localStorage.setItem(\'a\', \'b\');\n', runtimes);
+    assert.deepEqual(result.features[0].unavailableIn, ['node', 'bun']);
+    assert.equal(result.summary.unavailableFeatures, 1);
+    assert.deepEqual(minimums(result), ['Any', '1.10+', 'Any']);
+  });
+
+  it('only detects server-specific features in server mode', async () => {
+    assert.deepEqual((await analyzeCode('navigator.userAgent;\n', runtimes)).features.map(feature => feature.id), ['navigator-global']);
+    assert.deepEqual((await analyzeCode('navigator.userAgent;\n')).features, []);
+  });
+});
@@ -0,0 +1,152 @@
+import type { SupportStatement } from './support';
+import { compareVersions } from './targets';
+
+// What the analyzed code runs in: browsers, or a server runtime such as Node.js
+export type Runtime = 'browser' | 'server';
+
+/**
+ * A column in the support tables. Ids are the caniuse/browserslist agent names
+ * so target queries and caniuse stats line up with them. Support is read from
+ * caniuse where it tracks the browser's releases, then from a feature's
+ * hand-curated table, then derived from another column:
+ * - `tracks`: the browser shares version numbers with a desktop browser
+ * - `engine`: the browser or runtime embeds another browser's engine, with the
+ *   engine release each of its versions shipped
+ */
+export interface BrowserDefinition {
+  name: string;
+  // Used where space is short, such as CLI table headings
+  shortName?: string;
+  icon: string;
+  kind: 'desktop' | 'mobile' | 'runtime';
+  // caniuse has this browser's release history, not just its latest release
+  caniuse?: boolean;
+  tracks?: { browser: string; since?: string };
+  engine?: { browser: string; releases: [string, string][] };
+}
+
+// Opera 15 onwards is Chromium-based: 13 versions behind Chrome until Chrome skipped version 82, 14 after
+const operaReleases = Array.from({ length: 120 }, (_, index): [string, string] => {
+  const opera = index + 15;
+  return [`${opera}`, `${opera <= 68 ? opera + 13 : opera + 14}`];
+});
+
+// Listed in display order; columns something else derives from come first
+export const browserDefinitions: Record<string, BrowserDefinition> = {
+  chrome: { name: 'Chrome', icon: '🟢', kind: 'desktop', caniuse: true },
+  firefox: { name: 'Firefox', icon: '🟠', kind: 'desktop', caniuse: true },
+  safari: { name: 'Safari', icon: '🔵', kind: 'desktop', caniuse: true },
+  edge: { name: 'Edge', icon: '🟦', kind: 'desktop', caniuse: true },
+  ie: { name: 'Internet Explorer', shortName: 'IE', icon: '🟪', kind: 'desktop', caniuse: true },
+  opera: { name: 'Opera', icon: '🔴', kind: 'desktop', caniuse: true, engine: { browser: 'chrome', releases: operaReleases } },
+  samsung: {
+    name: 'Samsung Internet',
+    shortName: 'Samsung',
+    icon: '🟣',
+    kind: 'mobile',
+    caniuse: true,
+    engine: {
+      browser: 'chrome',
+      releases: [
+        ['4', '44'], ['5.0', '51'], ['6.2', '56'], ['7.2', '59'], ['8.2', '63'], ['9.2', '67'], ['10.1', '71'],
+        ['11.1', '75'], ['12.0', '79'], ['13.0', '83'], ['14.0', '87'], ['15.0', '90'], ['16.0', '92'], ['17.0', '96'],
+        ['18.0', '99'], ['19.0', '102'], ['20', '106'], ['21', '110'], ['22', '111'], ['23', '115'], ['24', '117'],
+        ['25', '121'], ['26', '122'], ['27', '125'], ['28', '130']
+      ]
+    }
+  },
+  ios_saf: { name: 'iOS Safari', icon: '📱', kind: 'mobile', caniuse: true, tracks: { browser: 'safari' } },
+  // caniuse only lists the latest release of the Android browsers, whose versions follow desktop
+  and_chr: { name: 'Chrome Android', icon: '🤖', kind: 'mobile', tracks: { browser: 'chrome' } },
+  and_ff: { name: 'Firefox Android', icon: '🦊', kind: 'mobile', tracks: { browser: 'firefox' } },
+  // The Chromium-based WebView, which updates alongside Chrome from version 37
+  android: { name: 'Android WebView', shortName: 'WebView', icon: '🧩', kind: 'mobile', tracks: { browser: 'chrome', since: '37' } },
+  // Server runtimes, by the V8 (Chrome) or JavaScriptCore (Safari) release they ship
+  node: {
+    name: 'Node.js',
+    icon: '🟩',
+    kind: 'runtime',
+    engine: {
+      browser: 'chrome',
+      releases: [
+        ['0.10', '24'], ['0.12', '38'], ['4', '45'], ['5', '46'], ['6', '50'], ['7', '54'], ['8', '58'], ['9', '62'],
+        ['10', '66'], ['11', '70'], ['12', '74'], ['13', '78'], ['14', '81'], ['15', '86'], ['16', '90'], ['17', '95'],
+        ['18', '101'], ['19', '107'], ['20', '113'], ['21', '118'], ['22', '124'], ['23', '129'], ['24', '136'], ['25', '141']
+      ]
+    }
+  },
+  deno: {
+    name: 'Deno',
+    icon: '🦕',
+    kind: 'runtime',
+    engine: {
+      browser: 'chrome',
+      releases: [['1.0', '84'], ['1.10', '91'], ['1.20', '100'], ['1.30', '109'], ['1.40', '121'], ['2.0', '129'], ['2.1', '130'], ['2.2', '134']]
+    }
+  },
+  bun: {
+    name: 'Bun',
+    icon: '🥟',
+    kind: 'runtime',
+    engine: { browser: 'safari', releases: [['1.0', '17.0'], ['1.1', '17.4'], ['1.2', '18.2']] }
+  }
+};
+
+export const allBrowsers = Object.keys(browserDefinitions);
+
+// Columns reported when no browsers are chosen
+export const defaultBrowsers = ['chrome', 'firefox', 'safari', 'edge', 'ie'];
+export const defaultRuntimes = ['node'];
+
+// Validates a list of browser ids, in the order given, falling back to the defaults for the runtime
+export function selectBrowsers(browsers?: string[], runtime: Runtime = 'browser'): string[] {
+  if (!browsers || browsers.length === 0) return runtime === 'server' ? defaultRuntimes : defaultBrowsers;
+  const unknown = browsers.filter(browser => !Object.hasOwn(browserDefinitions, browser));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown browser '${unknown[0]}', expected one of: ${allBrowsers.join(', ')}`);
+  }
+  return Array.from(new Set(browsers));
+}
+
+/**
+ * Derives a browser's support from the column it tracks or takes its engine
+ * from, given the statements resolved so far. Partial and prefixed support
+ * carry over; support behind a flag doesn't, since runtimes and derivative
+ * browsers don't expose the same flags.
+ */
+export function deriveSupport(browser: string, resolved: Record<string, SupportStatement>): SupportStatement | undefined {
+  const definition = browserDefinitions[browser];
+
+  if (definition.tracks) {
+    const statement = resolved[definition.tracks.browser];
+    const since = definition.tracks.since;
+    if (!statement || statement.added === null || !since || compareVersions(statement.added, since) >= 0) return statement;
+    if (statement.removed !== undefined && compareVersions(statement.removed, since) <= 0) return { added: null };
+    return { ...statement, added: since };
+  }
+
+  if (definition.engine) {
+    const statement = resolved[definition.engine.browser];
+    if (statement === undefined) return undefined;
+    // The first release shipping an engine at least as new as the given version
+    const releaseWith = (version: string) =>
+      definition.engine!.releases.find(([, engine]) => compareVersions(engine, version) >= 0)?.[0];
+
+    const added = statement.added === null ? undefined : releaseWith(statement.added);
+    if (added === undefined) return { added: null };
+
+    // Notes describe the browser they were written for, so only the support itself carries over
+    const derived: SupportStatement = { added };
+    if (statement.partial) derived.partial = statement.partial;
+    if (statement.prefix) derived.prefix = statement.prefix;
+    if (statement.removed !== undefined) {
+      const removed = releaseWith(statement.removed);
+      if (removed === added) return { added: null };
+      // Without a release that new, every listed release still has it
+      if (removed) derived.removed = removed;
+    }
+    return derived;
+  }
+
+  return undefined;
+}
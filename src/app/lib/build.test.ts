@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+import { applyBuild, buildOptionsFromBabel, buildOptionsFromSwc, type BuildOptions } from './build';
+import { resolveTargets } from './targets';
+
+const build = async (code: string, options: BuildOptions) => {
+  const { features } = await analyzeCode(code);
+  return applyBuild(features, options, options.targets ? await resolveTargets(options.targets) : null);
+};
+
+describe('build configs', () => {
+  it('reads preset-env options and plugins from a Babel config', () => {
+    assert.deepEqual(buildOptionsFromBabel({
+      presets: [['@babel/preset-env', { targets: { chrome: '70', ios: '12' }, useBuiltIns: 'usage' }]],
+      plugins: [['@babel/plugin-proposal-decorators', { version: '2023-11' }], 'proposal-explicit-resource-management']
+    }), {
+      tool: 'babel',
+      targets: 'chrome 70, ios_saf 12',
+      useBuiltIns: 'usage',
+      plugins: ['@babel/plugin-proposal-decorators', 'babel-plugin-proposal-explicit-resource-management']
+    });
+    assert.throws(() => buildOptionsFromBabel({ presets: ['@babel/preset-react'] }), /doesn't use @babel\/preset-env/);
+  });
+
+  it('reads env and jsc.target from an .swcrc', () => {
+    assert.deepEqual(buildOptionsFromSwc({ env: { targets: 'chrome 70', mode: 'usage' } }), { tool: 'swc', targets: 'chrome 70', useBuiltIns: 'usage' });
+    assert.equal(buildOptionsFromSwc({}).jscTarget, 'es5');
+    assert.throws(() => buildOptionsFromSwc({ jsc: { target: 'es1' } }), /Unknown SWC jsc.target/);
+  });
+});
+
+describe('applying a build', () => {
+  it('compiles the syntax its targets lack and polyfills with useBuiltIns: usage', async () => {
+    const { summary, features } = await build('const a = x?.y;\nconst b = [1].at(0);\n', { tool: 'babel', targets: 'chrome 70', useBuiltIns: 'usage' });
+    assert.deepEqual(summary.handled.sort(), ['array-at', 'optional-chaining']);
+    assert.ok(summary.unchanged.includes('const-declaration'));
+    assert.equal(features.find(feature => feature.id === 'optional-chaining').compiledBy, 'Babel');
+    assert.equal(features.find(feature => feature.id === 'array-at').polyfilledBy, 'core-js/actual/array/at');
+  });
+
+  it('leaves proposals to their own Babel plugin', async () => {
+    const code = '@logged class A {}\n{ using file = open(); }\n';
+    const presetOnly = await build(code, { tool: 'babel', targets: 'chrome 70' });
+    assert.ok(presetOnly.summary.unchanged.includes('decorators'));
+    assert.ok(presetOnly.summary.unchanged.includes('explicit-resource-management'));
+
+    const withPlugins = await build(code, {
+      tool: 'babel',
+      targets: 'chrome 70',
+      plugins: ['@babel/plugin-proposal-decorators', '@babel/plugin-transform-explicit-resource-management']
+    });
+    assert.ok(withPlugins.summary.handled.includes('decorators'));
+    assert.ok(withPlugins.summary.handled.includes('explicit-resource-management'));
+  });
+
+  it('compiles down to jsc.target for SWC without env targets', async () => {
+    const { summary } = await build('const f = () => x ?? 1;\n', { tool: 'swc', jscTarget: 'es2019' });
+    assert.deepEqual(summary.handled, ['nullish-coalescing']);
+  });
+});
@@ -0,0 +1,161 @@
+import type { DetectedFeature } from './analyzer';
+import { polyfillModuleFor } from './polyfills';
+import { proposalPlugins, transpiledSyntax } from './remediation';
+import { checkTarget } from './targets';
+import { compiledSyntax, normalizeTarget } from './typescript';
+
+export type BuildTool = 'babel' | 'swc';
+
+/**
+ * What a Babel (@babel/preset-env) or SWC configuration does to the code
+ * before it ships. Without targets, preset-env and SWC's env compile all the
+ * syntax they can and, with `useBuiltIns: 'usage'`, polyfill every API
+ * core-js covers.
+ */
+export interface BuildOptions {
+  tool: BuildTool;
+  // browserslist query the build compiles for
+  targets?: string;
+  // 'usage' injects core-js polyfills for the APIs the code uses; 'entry' only expands a core-js import
+  useBuiltIns?: 'usage' | 'entry' | false;
+  // SWC's jsc.target, which decides what's compiled when there are no env targets
+  jscTarget?: string;
+  // Babel plugins the config lists besides preset-env, such as '@babel/plugin-proposal-decorators'
+  plugins?: string[];
+}
+
+export interface BuildSummary {
+  tool: BuildTool;
+  targets?: string;
+  // Feature ids the build compiles away or polyfills
+  handled: string[];
+  // Feature ids that reach the browser as written
+  unchanged: string[];
+}
+
+const toolNames: Record<BuildTool, string> = { babel: 'Babel', swc: 'SWC' };
+
+// preset-env target names that browserslist spells differently
+const browserslistNames: Record<string, string> = { ios: 'ios_saf', opera_mobile: 'op_mob' };
+
+// preset-env and SWC accept targets as a query, a list of queries, or minimum versions per browser
+const targetsQuery = (targets): string | undefined => {
+  if (targets === undefined || targets === null) return undefined;
+  if (typeof targets === 'string') return targets;
+  if (Array.isArray(targets)) return targets.join(', ');
+
+  const queries = Object.entries(targets).flatMap(([browser, version]) => {
+    if (browser === 'browsers') return [targetsQuery(version)];
+    if (browser === 'esmodules') return version === true ? ['supports es6-module'] : [];
+    // 'node: current' means the Node.js running the build, which says nothing about browsers
+    if (version === 'current') return [];
+    return [`${browserslistNames[browser] ?? browser} ${version}`];
+  });
+  return queries.filter(Boolean).join(', ') || undefined;
+};
+
+const builtInsMode = (value): BuildOptions['useBuiltIns'] => {
+  if (value === undefined || value === false || value === 'usage' || value === 'entry') return value;
+  throw new Error(`Unknown useBuiltIns mode '${value}', expected 'usage', 'entry' or false`);
+};
+
+const presetEnvPattern = /^(?:@babel\/(?:preset-)?env|babel-preset-env|env)$/;
+
+// A Babel plugin's package name from the short forms configs may use: 'proposal-decorators'
+// and '@babel/proposal-decorators' are both '@babel/plugin-proposal-decorators'
+const babelPluginName = (name: string) => {
+  if (name.startsWith('@babel/')) return name.replace(/^@babel\/(?:plugin-)?/, '@babel/plugin-');
+  if (name.startsWith('@') || name.startsWith('babel-plugin-') || name.startsWith('.') || name.startsWith('/')) return name;
+  return `babel-plugin-${name}`;
+};
+
+// Reads the @babel/preset-env options from a Babel config object
+export function buildOptionsFromBabel(config): BuildOptions {
+  const preset = (config?.presets ?? [])
+    .map(entry => (Array.isArray(entry) ? entry : [entry, {}]))
+    .find(([name]) => typeof name === 'string' && presetEnvPattern.test(name));
+  if (!preset) throw new Error('The Babel config doesn\'t use @babel/preset-env');
+
+  const options = preset[1] ?? {};
+  const plugins = (config.plugins ?? [])
+    .map(entry => (Array.isArray(entry) ? entry[0] : entry))
+    .filter(name => typeof name === 'string')
+    .map(babelPluginName);
+  return {
+    tool: 'babel',
+    // Top-level targets apply to every preset that doesn't set its own
+    targets: targetsQuery(options.targets ?? config.targets),
+    useBuiltIns: builtInsMode(options.useBuiltIns),
+    ...(plugins.length > 0 ? { plugins } : {})
+  };
+}
+
+// Reads the env and jsc.target options from an .swcrc, which may list several configs
+export function buildOptionsFromSwc(config): BuildOptions {
+  const swc = Array.isArray(config) ? config[0] : config;
+  const jscTarget = swc?.jsc?.target;
+  if (jscTarget !== undefined) {
+    try {
+      normalizeTarget(jscTarget);
+    } catch {
+      throw new Error(`Unknown SWC jsc.target '${jscTarget}'`);
+    }
+  }
+  return {
+    tool: 'swc',
+    targets: targetsQuery(swc?.env?.targets),
+    useBuiltIns: builtInsMode(swc?.env?.mode),
+    // Without an env section SWC compiles for jsc.target, which defaults to ES5
+    ...(swc?.env ? {} : { jscTarget: jscTarget ?? 'es5' })
+  };
+}
+
+/**
+ * Marks the features the build handles: syntax it compiles is reported with
+ * `compiledBy`, and with `useBuiltIns: 'usage'` the core-js polyfills it
+ * injects with `polyfilledBy`. Only features some build target lacks are
+ * handled; the rest ship as written, and so do runtime APIs core-js can't
+ * polyfill. `buildBrowsers` is the resolved build targets query, if any.
+ */
+export function applyBuild(
+  features: DetectedFeature[],
+  build: BuildOptions,
+  buildBrowsers: string[] | null
+): { features: DetectedFeature[]; summary: BuildSummary } {
+  const needed = (feature: DetectedFeature) =>
+    !buildBrowsers || buildBrowsers.some(browser => checkTarget(feature, browser) === 'unsupported');
+  // SWC without env targets compiles down to jsc.target, whatever the browsers
+  const jscCompiled = build.tool === 'swc' && !build.targets && build.jscTarget !== undefined
+    ? compiledSyntax({ target: build.jscTarget })
+    : null;
+  // preset-env leaves proposals alone; the config has to list their plugin, which is renamed
+  // from proposal- to transform- once the proposal is standardized
+  const proposalCompiled = (id: string) => Object.hasOwn(proposalPlugins, id) &&
+    [proposalPlugins[id], proposalPlugins[id].replace('-proposal-', '-transform-')].some(name => build.plugins?.includes(name));
+  const compiles = (feature: DetectedFeature) => jscCompiled
+    ? jscCompiled.includes(feature.id)
+    : (transpiledSyntax.includes(feature.id) || proposalCompiled(feature.id)) && needed(feature);
+
+  const handled = features.map(feature => {
+    if (feature.compiledBy || feature.polyfilledBy) return feature;
+    if (compiles(feature)) return { ...feature, compiledBy: toolNames[build.tool] };
+    const polyfill = polyfillModuleFor(feature.id);
+    if (build.useBuiltIns === 'usage' && polyfill?.startsWith('core-js/') && needed(feature)) {
+      return { ...feature, polyfilledBy: polyfill };
+    }
+    return feature;
+  });
+
+  // A polyfill the code imports itself isn't the build's doing
+  const byBuild = (feature: DetectedFeature, index: number) =>
+    Boolean(feature.compiledBy) || (feature.polyfilledBy !== undefined && features[index].polyfilledBy === undefined);
+  return {
+    features: handled,
+    summary: {
+      tool: build.tool,
+      ...(build.targets ? { targets: build.targets } : {}),
+      handled: handled.filter(byBuild).map(feature => feature.id),
+      unchanged: handled.filter((feature, index) => !byBuild(feature, index)).map(feature => feature.id)
+    }
+  };
+}
@@ -0,0 +1,235 @@
+import unpackFeature from 'caniuse-lite/dist/unpacker/feature';
+import { agents } from 'caniuse-lite/dist/unpacker/agents';
+import caniusePackage from 'caniuse-lite/package.json';
+import type { SupportStatement } from './support';
+
+// Only the features referenced by the feature maps are imported so the client bundle
+// doesn't pull in the whole caniuse database
+import abortcontroller from 'caniuse-lite/data/features/abortcontroller';
+import arrayFind from 'caniuse-lite/data/features/array-find';
+import arrayFindIndex from 'caniuse-lite/data/features/array-find-index';
+import arrayFlat from 'caniuse-lite/data/features/array-flat';
+import arrayIncludes from 'caniuse-lite/data/features/array-includes';
+import arrowFunctions from 'caniuse-lite/data/features/arrow-functions';
+import asyncFunctions from 'caniuse-lite/data/features/async-functions';
+import beacon from 'caniuse-lite/data/features/beacon';
+import bigint from 'caniuse-lite/data/features/bigint';
+import constDeclaration from 'caniuse-lite/data/features/const';
+import cssAnchorPositioning from 'caniuse-lite/data/features/css-anchor-positioning';
+import cssBackdropFilter from 'caniuse-lite/data/features/css-backdrop-filter';
+import cssCascadeLayers from 'caniuse-lite/data/features/css-cascade-layers';
+import cssCascadeScope from 'caniuse-lite/data/features/css-cascade-scope';
+import cssContainerQueries from 'caniuse-lite/data/features/css-container-queries';
+import cssContainerQueriesStyle from 'caniuse-lite/data/features/css-container-queries-style';
+import cssContainerQueryUnits from 'caniuse-lite/data/features/css-container-query-units';
+import cssContentVisibility from 'caniuse-lite/data/features/css-content-visibility';
+import cssDisplayContents from 'caniuse-lite/data/features/css-display-contents';
+import cssEnvFunction from 'caniuse-lite/data/features/css-env-function';
+import cssFeaturequeries from 'caniuse-lite/data/features/css-featurequeries';
+import cssFocusVisible from 'caniuse-lite/data/features/css-focus-visible';
+import cssFocusWithin from 'caniuse-lite/data/features/css-focus-within';
+import cssGrid from 'caniuse-lite/data/features/css-grid';
+import cssHas from 'caniuse-lite/data/features/css-has';
+import cssLchLab from 'caniuse-lite/data/features/css-lch-lab';
+import cssLogicalProps from 'caniuse-lite/data/features/css-logical-props';
+import cssMatchesPseudo from 'caniuse-lite/data/features/css-matches-pseudo';
+import cssMathFunctions from 'caniuse-lite/data/features/css-math-functions';
+import cssMediaRangeSyntax from 'caniuse-lite/data/features/css-media-range-syntax';
+import cssNesting from 'caniuse-lite/data/features/css-nesting';
+import cssNthChildOf from 'caniuse-lite/data/features/css-nth-child-of';
+import cssOverscrollBehavior from 'caniuse-lite/data/features/css-overscroll-behavior';
+import cssRelativeColors from 'caniuse-lite/data/features/css-relative-colors';
+import cssSticky from 'caniuse-lite/data/features/css-sticky';
+import cssSubgrid from 'caniuse-lite/data/features/css-subgrid';
+import cssTextWrapBalance from 'caniuse-lite/data/features/css-text-wrap-balance';
+import cssVariables from 'caniuse-lite/data/features/css-variables';
+import decorators from 'caniuse-lite/data/features/decorators';
+import dialog from 'caniuse-lite/data/features/dialog';
+import es6Class from 'caniuse-lite/data/features/es6-class';
+import es6Generators from 'caniuse-lite/data/features/es6-generators';
+import es6Module from 'caniuse-lite/data/features/es6-module';
+import es6ModuleDynamicImport from 'caniuse-lite/data/features/es6-module-dynamic-import';
+import es6StringIncludes from 'caniuse-lite/data/features/es6-string-includes';
+import eventsource from 'caniuse-lite/data/features/eventsource';
+import fetchFeature from 'caniuse-lite/data/features/fetch';
+import getrandomvalues from 'caniuse-lite/data/features/getrandomvalues';
+import highResolutionTime from 'caniuse-lite/data/features/high-resolution-time';
+import importMaps from 'caniuse-lite/data/features/import-maps';
+import indexeddb from 'caniuse-lite/data/features/indexeddb';
+import intersectionobserver from 'caniuse-lite/data/features/intersectionobserver';
+import jsRegexpLookbehind from 'caniuse-lite/data/features/js-regexp-lookbehind';
+import letDeclaration from 'caniuse-lite/data/features/let';
+import loadingLazyAttr from 'caniuse-lite/data/features/loading-lazy-attr';
+import mutationobserver from 'caniuse-lite/data/features/mutationobserver';
+import namevalueStorage from 'caniuse-lite/data/features/namevalue-storage';
+import objectEntries from 'caniuse-lite/data/features/object-entries';
+import objectValues from 'caniuse-lite/data/features/object-values';
+import padStartEnd from 'caniuse-lite/data/features/pad-start-end';
+import promises from 'caniuse-lite/data/features/promises';
+import proxy from 'caniuse-lite/data/features/proxy';
+import resizeobserver from 'caniuse-lite/data/features/resizeobserver';
+import restParameters from 'caniuse-lite/data/features/rest-parameters';
+import sharedarraybuffer from 'caniuse-lite/data/features/sharedarraybuffer';
+import streams from 'caniuse-lite/data/features/streams';
+import templateLiterals from 'caniuse-lite/data/features/template-literals';
+import temporal from 'caniuse-lite/data/features/temporal';
+import url from 'caniuse-lite/data/features/url';
+import urlsearchparams from 'caniuse-lite/data/features/urlsearchparams';
+import viewTransitions from 'caniuse-lite/data/features/view-transitions';
+import viewportUnitVariants from 'caniuse-lite/data/features/viewport-unit-variants';
+import websockets from 'caniuse-lite/data/features/websockets';
+
+export type CaniuseStats = Record<string, Record<string, string>>;
+
+const packedFeatures: Record<string, unknown> = {
+  'abortcontroller': abortcontroller,
+  'array-find': arrayFind,
+  'array-find-index': arrayFindIndex,
+  'array-flat': arrayFlat,
+  'array-includes': arrayIncludes,
+  'arrow-functions': arrowFunctions,
+  'async-functions': asyncFunctions,
+  'beacon': beacon,
+  'bigint': bigint,
+  'const': constDeclaration,
+  'css-anchor-positioning': cssAnchorPositioning,
+  'css-backdrop-filter': cssBackdropFilter,
+  'css-cascade-layers': cssCascadeLayers,
+  'css-cascade-scope': cssCascadeScope,
+  'css-container-queries': cssContainerQueries,
+  'css-container-queries-style': cssContainerQueriesStyle,
+  'css-container-query-units': cssContainerQueryUnits,
+  'css-content-visibility': cssContentVisibility,
+  'css-display-contents': cssDisplayContents,
+  'css-env-function': cssEnvFunction,
+  'css-featurequeries': cssFeaturequeries,
+  'css-focus-visible': cssFocusVisible,
+  'css-focus-within': cssFocusWithin,
+  'css-grid': cssGrid,
+  'css-has': cssHas,
+  'css-lch-lab': cssLchLab,
+  'css-logical-props': cssLogicalProps,
+  'css-matches-pseudo': cssMatchesPseudo,
+  'css-math-functions': cssMathFunctions,
+  'css-media-range-syntax': cssMediaRangeSyntax,
+  'css-nesting': cssNesting,
+  'css-nth-child-of': cssNthChildOf,
+  'css-overscroll-behavior': cssOverscrollBehavior,
+  'css-relative-colors': cssRelativeColors,
+  'css-sticky': cssSticky,
+  'css-subgrid': cssSubgrid,
+  'css-text-wrap-balance': cssTextWrapBalance,
+  'css-variables': cssVariables,
+  'decorators': decorators,
+  'dialog': dialog,
+  'es6-class': es6Class,
+  'es6-generators': es6Generators,
+  'es6-module': es6Module,
+  'es6-module-dynamic-import': es6ModuleDynamicImport,
+  'es6-string-includes': es6StringIncludes,
+  'eventsource': eventsource,
+  'fetch': fetchFeature,
+  'getrandomvalues': getrandomvalues,
+  'high-resolution-time': highResolutionTime,
+  'import-maps': importMaps,
+  'indexeddb': indexeddb,
+  'intersectionobserver': intersectionobserver,
+  'js-regexp-lookbehind': jsRegexpLookbehind,
+  'let': letDeclaration,
+  'loading-lazy-attr': loadingLazyAttr,
+  'mutationobserver': mutationobserver,
+  'namevalue-storage': namevalueStorage,
+  'object-entries': objectEntries,
+  'object-values': objectValues,
+  'pad-start-end': padStartEnd,
+  'promises': promises,
+  'proxy': proxy,
+  'resizeobserver': resizeobserver,
+  'rest-parameters': restParameters,
+  'sharedarraybuffer': sharedarraybuffer,
+  'streams': streams,
+  'template-literals': templateLiterals,
+  'temporal': temporal,
+  'url': url,
+  'urlsearchparams': urlsearchparams,
+  'view-transitions': viewTransitions,
+  'viewport-unit-variants': viewportUnitVariants,
+  'websockets': websockets
+};
+
+const unpackedFeatures: Map<string, CaniuseStats> = new Map();
+
+// Version of the caniuse-lite package the support tables were generated from
+export const caniuseVersion: string = caniusePackage.version;
+
+export function getCaniuseStats(id: string): CaniuseStats | undefined {
+  if (!unpackedFeatures.has(id)) {
+    const packed = packedFeatures[id];
+    if (!packed) return undefined;
+    unpackedFeatures.set(id, unpackFeature(packed).stats);
+  }
+  return unpackedFeatures.get(id);
+}
+
+// Released versions of a caniuse agent, oldest first
+export function getReleasedVersions(browser: string): string[] {
+  const agent = agents[browser];
+  if (!agent) return [];
+  return agent.versions.filter((version): version is string =>
+    version !== null && agent.release_date[version] !== null && agent.release_date[version] !== undefined
+  );
+}
+
+// caniuse reports ranges such as '15.2-15.3' as a single release
+export const versionLabel = (version: string) => version.split('-')[0];
+
+/**
+ * Collapses a caniuse stats column into a support statement for the latest
+ * release: the version the current run of support began ('y' without a prefix,
+ * otherwise any 'y' or 'a'), with partial ('a') and prefixed ('x') support
+ * recorded; support that was dropped again as `removed`; and support behind a
+ * flag ('d') when the latest release has none by default.
+ */
+export function summariseSupport(browserStats: Record<string, string> | undefined, browser: string): SupportStatement | undefined {
+  const versions = getReleasedVersions(browser);
+  if (!browserStats || versions.length === 0) return undefined;
+
+  const states = versions.map(version => (browserStats[version] || 'u').split(' '));
+  const isFull = (flags: string[]) => flags.includes('y') && !flags.includes('x');
+  const isSupported = (flags: string[]) => flags.includes('y') || flags.includes('a');
+
+  // Walk back from a release to find where its run of support began
+  const runStart = (predicate: (flags: string[]) => boolean, end = states.length - 1) => {
+    let start = -1;
+    for (let i = end; i >= 0 && predicate(states[i]); i--) {
+      start = i;
+    }
+    return start;
+  };
+
+  const latest = states[states.length - 1];
+  const fullFrom = runStart(isFull);
+  if (fullFrom !== -1) {
+    return { added: versionLabel(versions[fullFrom]) };
+  }
+
+  const supportedFrom = runStart(isSupported);
+  if (supportedFrom !== -1) {
+    return {
+      added: versionLabel(versions[supportedFrom]),
+      ...(latest.includes('a') ? { partial: {} } : {}),
+      ...(latest.includes('x') ? { prefix: `-${agents[browser]!.prefix}-` } : {})
+    };
+  }
+
+  let lastSupported = states.length - 1;
+  while (lastSupported >= 0 && !isSupported(states[lastSupported])) lastSupported--;
+  if (lastSupported !== -1) {
+    return {
+      added: versionLabel(versions[runStart(isSupported, lastSupported)]),
+      removed: versionLabel(versions[lastSupported + 1])
+    };
+  }
+
+  return latest.includes('d') ? { added: null, flag: true } : { added: null };
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCss, looksLikeCss } from './css';
+import { detectLanguage } from './source';
+
+const ids = async (code: string) => (await analyzeCss(code)).features.map(feature => feature.id).sort();
+
+describe('CSS analysis', () => {
+  it('finds selectors, values, properties and at-rules', async () => {
+    assert.deepEqual(await ids('.card:has(img) { width: min(100%, 40rem); }'), ['css-has', 'css-math-functions']);
+    assert.deepEqual(await ids('@container (min-width: 30rem) { .a { margin-inline: 1cqi; } }'), ['css-container-queries', 'css-container-units', 'css-logical-properties']);
+    assert.deepEqual(await ids('@media (width >= 600px) { .a { color: red; } }'), ['css-media-range']);
+  });
+
+  it('reports nested rules as native nesting', async () => {
+    const result = await analyzeCss('.a {\n  color: red;\n  .b { color: blue; }\n}\n');
+    const nesting = result.features.find(feature => feature.id === 'css-nesting');
+    assert.deepEqual(nesting.codeSnippets.map(snippet => [snippet.matchLine, snippet.matchText]), [[3, '.b']]);
+  });
+
+  it('has nothing to report for plain CSS', async () => {
+    assert.deepEqual(await ids('.a { color: red; }'), []);
+  });
+});
+
+describe('CSS detection', () => {
+  it('tells pasted CSS apart from JavaScript', () => {
+    assert.equal(looksLikeCss('.a { color: red; }'), true);
+    assert.equal(looksLikeCss('@media print { body { margin: 0; } }'), true);
+    assert.equal(looksLikeCss('const a = { color: red };'), false);
+    assert.equal(looksLikeCss('if (x) { y: 1; }'), false);
+  });
+
+  it('picks the language from the file name before the contents', () => {
+    assert.equal(detectLanguage('.a { color: red; }'), 'css');
+    assert.equal(detectLanguage('.a { color: red; }', 'styles.js'), 'javascript');
+    assert.equal(detectLanguage('const a = 1;', 'styles.css'), 'css');
+  });
+});
@@ -0,0 +1,346 @@
+import postcss, { type AtRule, type Declaration, type Rule } from 'postcss';
+import {
+  buildAnalysisResult,
+  resolveFeatureMap,
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type DetectedFeature,
+  type FeatureDefinition
+} from './analyzer';
+import { selectBrowsers } from './browsers';
+import { applyPolyfills } from './polyfills';
+import { createSnippetCollector } from './snippets';
+import { resolveTargets } from './targets';
+
+// CSS feature detection mapping, resolved against caniuse like the JavaScript featureMap
+const cssFeatureDefinitions: Record<string, FeatureDefinition> = {
+  'css-has': {
+    feature: 'CSS :has()',
+    description: 'Relational pseudo-class that matches parents of a selector',
+    caniuseId: 'css-has'
+  },
+  'css-is-where': {
+    feature: 'CSS :is() and :where()',
+    description: 'Selector list pseudo-classes',
+    caniuseId: 'css-matches-pseudo'
+  },
+  'css-nth-child-of': {
+    feature: 'CSS :nth-child(of S)',
+    description: 'Filtering :nth-child() by a selector list',
+    caniuseId: 'css-nth-child-of'
+  },
+  'css-focus-visible': {
+    feature: 'CSS :focus-visible',
+    description: 'Focus styles shown only for keyboard-style focus',
+    caniuseId: 'css-focus-visible'
+  },
+  'css-focus-within': {
+    feature: 'CSS :focus-within',
+    description: 'Matches elements containing the focused element',
+    caniuseId: 'css-focus-within'
+  },
+  'css-nesting': {
+    feature: 'CSS Nesting',
+    description: 'Style rules nested inside other style rules',
+    caniuseId: 'css-nesting'
+  },
+  'css-container-queries': {
+    feature: 'Container Queries',
+    description: '@container size queries and container-type',
+    caniuseId: 'css-container-queries'
+  },
+  'css-container-style-queries': {
+    feature: 'Container Style Queries',
+    description: '@container style() queries on custom properties',
+    caniuseId: 'css-container-queries-style'
+  },
+  'css-container-units': {
+    feature: 'Container Query Units',
+    description: 'cqw, cqh, cqi, cqb, cqmin and cqmax length units',
+    caniuseId: 'css-container-query-units'
+  },
+  'css-viewport-units': {
+    feature: 'Viewport Unit Variants',
+    description: 'Small, large and dynamic viewport units (svh, lvh, dvh, ...)',
+    caniuseId: 'viewport-unit-variants'
+  },
+  'css-cascade-layers': {
+    feature: 'Cascade Layers',
+    description: '@layer rules for ordering the cascade',
+    caniuseId: 'css-cascade-layers'
+  },
+  'css-scope': {
+    feature: 'CSS @scope',
+    description: 'Scoped style rules with @scope',
+    caniuseId: 'css-cascade-scope'
+  },
+  'css-supports': {
+    feature: 'CSS @supports',
+    description: 'Feature queries with @supports',
+    caniuseId: 'css-featurequeries'
+  },
+  'css-media-range': {
+    feature: 'Media Query Range Syntax',
+    description: 'Comparison operators in media queries, e.g. (width >= 600px)',
+    caniuseId: 'css-media-range-syntax'
+  },
+  'css-grid': {
+    feature: 'CSS Grid',
+    description: 'Grid layout with display: grid',
+    caniuseId: 'css-grid'
+  },
+  'css-subgrid': {
+    feature: 'CSS Subgrid',
+    description: 'Grid tracks inherited from the parent grid',
+    caniuseId: 'css-subgrid'
+  },
+  'css-sticky': {
+    feature: 'position: sticky',
+    description: 'Sticky positioning',
+    caniuseId: 'css-sticky'
+  },
+  'css-display-contents': {
+    feature: 'display: contents',
+    description: 'Elements that generate no box of their own',
+    caniuseId: 'css-display-contents'
+  },
+  'css-logical-properties': {
+    feature: 'CSS Logical Properties',
+    description: 'Flow-relative properties such as margin-inline and inset-block',
+    caniuseId: 'css-logical-props'
+  },
+  'css-variables': {
+    feature: 'CSS Custom Properties',
+    description: 'Custom properties (--name) and var()',
+    caniuseId: 'css-variables'
+  },
+  'css-math-functions': {
+    feature: 'CSS min(), max() and clamp()',
+    description: 'Comparison functions in property values',
+    caniuseId: 'css-math-functions'
+  },
+  'css-env': {
+    feature: 'CSS env()',
+    description: 'Environment variables such as safe-area-inset-top',
+    caniuseId: 'css-env-function'
+  },
+  'css-color-mix': {
+    feature: 'color-mix()',
+    description: 'Mixing two colors in a given color space',
+    support: {
+      chrome: '111+',
+      firefox: '113+',
+      safari: '16.2+',
+      edge: '111+',
+      ie: 'No'
+    }
+  },
+  'css-lab-colors': {
+    feature: 'LAB and LCH Colors',
+    description: 'lab(), lch(), oklab() and oklch() color functions',
+    caniuseId: 'css-lch-lab'
+  },
+  'css-relative-colors': {
+    feature: 'Relative Color Syntax',
+    description: 'Colors derived from another color with the from keyword',
+    caniuseId: 'css-relative-colors'
+  },
+  'css-backdrop-filter': {
+    feature: 'backdrop-filter',
+    description: 'Graphical effects applied to the area behind an element',
+    caniuseId: 'css-backdrop-filter'
+  },
+  'css-content-visibility': {
+    feature: 'content-visibility',
+    description: 'Skipping rendering work for off-screen content',
+    caniuseId: 'css-content-visibility'
+  },
+  'css-overscroll-behavior': {
+    feature: 'overscroll-behavior',
+    description: 'Controlling scroll chaining and overscroll effects',
+    caniuseId: 'css-overscroll-behavior'
+  },
+  'css-text-wrap-balance': {
+    feature: 'text-wrap: balance',
+    description: 'Balanced line lengths for headings',
+    caniuseId: 'css-text-wrap-balance'
+  },
+  'css-anchor-positioning': {
+    feature: 'Anchor Positioning',
+    description: 'Positioning elements relative to an anchor element',
+    caniuseId: 'css-anchor-positioning'
+  },
+  'css-view-transitions': {
+    feature: 'View Transitions',
+    description: 'view-transition-name and ::view-transition pseudo-elements',
+    caniuseId: 'view-transitions'
+  }
+};
+
+const cssFeatureMap = resolveFeatureMap(cssFeatureDefinitions, { browserOnly: true });
+
+// Feature names for the CSS findings, so the results view can group them
+export const cssFeatureNames = Object.values(cssFeatureMap).map(feature => feature.feature);
+
+const selectorPatterns: [string, RegExp][] = [
+  ['css-has', /:has\(/g],
+  ['css-is-where', /:(is|where)\(/g],
+  ['css-nth-child-of', /:nth-(last-)?child\([^)]*\bof\b/g],
+  ['css-focus-visible', /:focus-visible\b/g],
+  ['css-focus-within', /:focus-within\b/g],
+  ['css-view-transitions', /::view-transition\b[\w-]*/g]
+];
+
+const valuePatterns: [string, RegExp][] = [
+  ['css-container-units', /\b\d*\.?\d+(cqw|cqh|cqi|cqb|cqmin|cqmax)\b/g],
+  ['css-viewport-units', /\b\d*\.?\d+[sld]v(h|w|i|b|min|max)\b/g],
+  ['css-variables', /\bvar\(/g],
+  ['css-math-functions', /\b(min|max|clamp)\(/g],
+  ['css-env', /\benv\(/g],
+  ['css-color-mix', /\bcolor-mix\(/g],
+  ['css-lab-colors', /\b(ok)?(lab|lch)\(/g],
+  ['css-relative-colors', /\b(rgba?|hsla?|hwb|(ok)?lab|(ok)?lch|color)\(\s*from\b/g],
+  ['css-anchor-positioning', /\banchor(-size)?\(/g]
+];
+
+const propertyPatterns: [string, RegExp][] = [
+  ['css-container-queries', /^container(-type|-name)?$/],
+  ['css-logical-properties', /^((margin|padding|border)-(inline|block)(-start|-end)?(-width|-style|-color)?|inset(-inline|-block)(-start|-end)?|(min-|max-)?(inline|block)-size)$/],
+  ['css-backdrop-filter', /^backdrop-filter$/],
+  ['css-content-visibility', /^content-visibility$/],
+  ['css-overscroll-behavior', /^overscroll-behavior(-x|-y|-inline|-block)?$/],
+  ['css-anchor-positioning', /^(anchor-name|position-anchor|position-area|position-try(-fallbacks)?)$/],
+  ['css-view-transitions', /^view-transition-name$/]
+];
+
+const atRuleFeatures: Record<string, string> = {
+  'container': 'css-container-queries',
+  'layer': 'css-cascade-layers',
+  'scope': 'css-scope',
+  'supports': 'css-supports',
+  'view-transition': 'css-view-transitions'
+};
+
+// Heuristics for telling pasted CSS apart from JavaScript: a selector followed by a
+// declaration block, or a leading at-rule, without any JavaScript keywords
+const cssBlockPattern = /(^|[}\s])[@.#:[*a-z][^{};=]*\{\s*(--[\w-]+|[a-z-]+)\s*:[^;{}]*[;}]/i;
+const cssAtRulePattern = /^\s*@(import|media|charset|layer|font-face|supports|container|keyframes|scope)\b/;
+const jsPattern = /\b(function|const|let|var|import\s*[{*\w'"]|export|return|require\(|(if|for|while|switch)\s*\()|=>/;
+
+export function looksLikeCss(code: string): boolean {
+  const source = code.replace(/\/\*[\s\S]*?\*\//g, '');
+  if (cssAtRulePattern.test(source)) return true;
+  return cssBlockPattern.test(source) && !jsPattern.test(source);
+}
+
+/**
+ * Analyzes a stylesheet with PostCSS and reports the CSS features it uses in the
+ * same shape as analyzeCode, so CSS findings can be shown and merged alongside
+ * JavaScript ones.
+ */
+export async function analyzeCss(code: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const browsers = selectBrowsers(options.browsers, options.runtime);
+  const targetQuery = options.targets?.trim();
+  const targetBrowsers = targetQuery ? await resolveTargets(targetQuery) : null;
+
+  const collector = createSnippetCollector(code, { filePath: options.filePath, maxOccurrences: options.maxOccurrences });
+  const addFeature = (featureKey: string, start: number, end: number) => collector.add(featureKey, start, end);
+
+  // Report every match of the patterns in a piece of source text starting at `offset`
+  const matchPatterns = (text: string, offset: number, patterns: [string, RegExp][]) => {
+    patterns.forEach(([featureKey, pattern]) => {
+      for (const match of text.matchAll(pattern)) {
+        addFeature(featureKey, offset + match.index, offset + match.index + match[0].length);
+      }
+    });
+  };
+
+  let root;
+  options.onProgress?.({ phase: 'parse' });
+  try {
+    root = postcss.parse(code);
+  } catch (error) {
+    throw new Error(`Failed to parse CSS code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  options.onProgress?.({ phase: 'traverse' });
+  root.walk(node => {
+    const start = node.source?.start?.offset;
+    const end = node.source?.end?.offset;
+    if (start === undefined || end === undefined) return;
+
+    if (node.type === 'rule') {
+      const rule = node as Rule;
+      const selector = rule.raws.selector?.raw ?? rule.selector;
+      matchPatterns(selector, start, selectorPatterns);
+
+      // A style rule inside another style rule is native nesting
+      if (rule.parent?.type === 'rule') {
+        addFeature('css-nesting', start, start + selector.length);
+      }
+    }
+
+    if (node.type === 'atrule') {
+      const atRule = node as AtRule;
+      const paramsStart = start + 1 + atRule.name.length + (atRule.raws.afterName ?? '').length;
+      const params = atRule.raws.params?.raw ?? atRule.params;
+      const name = atRule.name.toLowerCase();
+
+      if (atRuleFeatures[name]) {
+        addFeature(atRuleFeatures[name], start, paramsStart + params.length);
+      }
+      if (name === 'container' && /\bstyle\(/.test(params)) {
+        addFeature('css-container-style-queries', start, paramsStart + params.length);
+      }
+      if (name === 'media' && /\(\s*[\w-]+\s*[<>]=?|[<>]=?\s*[\w-]+\s*\)/.test(params)) {
+        addFeature('css-media-range', start, paramsStart + params.length);
+      }
+      if (atRule.parent?.type === 'rule' && ['media', 'supports', 'container', 'layer', 'scope'].includes(name)) {
+        addFeature('css-nesting', start, paramsStart + params.length);
+      }
+      matchPatterns(params, paramsStart, valuePatterns);
+    }
+
+    if (node.type === 'decl') {
+      const decl = node as Declaration;
+      const property = decl.prop.toLowerCase();
+      const value = decl.raws.value?.raw ?? decl.value;
+      const valueStart = start + decl.prop.length + (decl.raws.between ?? '').length;
+      const keyword = decl.value.trim().toLowerCase();
+
+      propertyPatterns.forEach(([featureKey, pattern]) => {
+        if (pattern.test(property)) addFeature(featureKey, start, end);
+      });
+      if (property.startsWith('--')) {
+        addFeature('css-variables', start, start + decl.prop.length);
+      }
+      if (property === 'display' && /^(inline-)?grid$/.test(keyword)) {
+        addFeature('css-grid', start, end);
+      }
+      if (property === 'display' && keyword === 'contents') {
+        addFeature('css-display-contents', start, end);
+      }
+      if (property === 'position' && keyword === 'sticky') {
+        addFeature('css-sticky', start, end);
+      }
+      if (/^grid-template-(rows|columns)$/.test(property) && /\bsubgrid\b/.test(keyword)) {
+        addFeature('css-subgrid', start, end);
+      }
+      if ((property === 'text-wrap' || property === 'text-wrap-style') && keyword === 'balance') {
+        addFeature('css-text-wrap-balance', start, end);
+      }
+      matchPatterns(value, valueStart, valuePatterns);
+    }
+  });
+
+  options.onProgress?.({ phase: 'aggregate' });
+  const features = collector.featureKeys().map(featureKey => ({
+    ...cssFeatureMap[featureKey],
+    codeSnippets: collector.snippets(featureKey),
+    ...(collector.omitted(featureKey) > 0 ? { omittedOccurrences: collector.omitted(featureKey) } : {})
+  })) as DetectedFeature[];
+
+  const polyfilled = applyPolyfills(features, [], options.polyfills);
+  const result = buildAnalysisResult(polyfilled, targetQuery && targetBrowsers ? { query: targetQuery, browsers: targetBrowsers } : undefined, { browsers, runtime: options.runtime });
+  return { ...result, language: 'css' };
+}
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode, registerDetector } from './analyzer';
+
+registerDetector({
+  name: 'acme',
+  features: {
+    'acme-sdk': {
+      feature: 'Acme SDK',
+      description: 'Acme\'s in-house analytics SDK',
+      support: { chrome: '90+', firefox: 'No', safari: '15+', edge: '90+', ie: 'No' },
+      match: { globals: ['AcmeSDK'], imports: ['@acme/sdk'] }
+    }
+  }
+});
+
+const acme = async (code: string) => (await analyzeCode(code)).features.find(feature => feature.id === 'acme-sdk');
+
+describe('detector matches', () => {
+  it('reports uses of a matched global', async () => {
+    const feature = await acme('AcmeSDK.init();\nwindow.AcmeSDK.track();\n');
+    assert.equal(feature.codeSnippets.length, 2);
+    assert.equal(feature.guarded, undefined);
+  });
+
+  it('reports matched imports and their subpaths', async () => {
+    assert.ok(await acme('import { track } from \'@acme/sdk/tracking\';'));
+    assert.equal(await acme('import \'@acme/sdk-other\';'), undefined);
+  });
+
+  it('doesn\'t count the feature detection as a use', async () => {
+    for (const code of [
+      'if (window.AcmeSDK) AcmeSDK.init();',
+      'window.AcmeSDK && window.AcmeSDK.init();',
+      'const sdk = AcmeSDK ? AcmeSDK.init() : null;',
+      'if (!window.AcmeSDK) throw new Error(); else AcmeSDK.init();',
+      'if (typeof AcmeSDK !== \'undefined\') AcmeSDK.init();'
+    ]) {
+      const feature = await acme(code);
+      assert.equal(feature.codeSnippets.length, 1, code);
+      assert.equal(feature.guarded, true, code);
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import type { FeatureDefinition } from './analyzer';
+import type { Runtime } from './browsers';
+import { isGuarded, isGuardTest } from './guards';
+import { globalPath, isGlobal } from './scope';
+
+// A Babel traverse visitor: handlers keyed by node type, or by several joined with '|'
+export type Visitor = Record<string, (path) => void>;
+
+// What a detector's visitor can do while one piece of code is analyzed
+export interface DetectorContext {
+  // Records a use of a feature, by id. A use without a position is reported without a code snippet.
+  addFeature: (featureKey: string, start?: number | null, end?: number | null, guarded?: boolean) => void;
+  // Records a module the code imports, which project analysis follows
+  addImport: (specifier: string) => void;
+  runtime: Runtime;
+}
+
+/**
+ * Finds a feature without a visitor:
+ * - `globals`: global APIs, or properties of them, such as 'AcmeSDK' or
+ *   'navigator.userAgentData'. Uses behind feature detection count as guarded,
+ *   as they do for the built-in APIs.
+ * - `imports`: modules whose import (or require) means the feature is used,
+ *   including their subpaths: '@acme/sdk' also matches '@acme/sdk/tracking'.
+ */
+export interface FeatureMatch {
+  globals?: string[];
+  imports?: string[];
+}
+
+export interface DetectorFeature extends FeatureDefinition {
+  match?: FeatureMatch;
+}
+
+/**
+ * A set of features and how to find them in JavaScript. Features are defined
+ * as in the built-in feature map: a caniuseId or a support table for the
+ * desktop browsers. They're found with `match` on the feature, a Babel
+ * visitor, or both; a visitor can also report features of other detectors.
+ */
+export interface Detector {
+  // Registering another detector with the same name replaces this one
+  name: string;
+  features?: Record<string, DetectorFeature>;
+  visitor?: (context: DetectorContext) => Visitor;
+}
+
+const importMatches = (specifier: string, module: string) => specifier === module || specifier.startsWith(`${module}/`);
+
+// The visitor for the features a detector finds with `match`
+const matchVisitor = (features: Record<string, DetectorFeature>, { addFeature }: DetectorContext): Visitor | null => {
+  const matched = Object.entries(features).filter(([, feature]) => feature.match);
+  if (matched.length === 0) return null;
+
+  const matchGlobal = (path) => {
+    // `typeof X` is how code checks for an API, not a use of it
+    if (path.parentPath.isUnaryExpression({ operator: 'typeof' })) return;
+    const name = globalPath(path);
+    if (!name) return;
+    // Nor is `if (window.X)` or `X && X.run()`: only what the check guards is
+    if (isGuardTest(path, name)) return;
+    matched
+      .filter(([, feature]) => feature.match!.globals?.includes(name))
+      .forEach(([featureKey]) => addFeature(featureKey, path.node.start, path.node.end, isGuarded(path, name)));
+  };
+
+  const matchImport = (specifier: string, node) => {
+    matched
+      .filter(([, feature]) => feature.match!.imports?.some(module => importMatches(specifier, module)))
+      .forEach(([featureKey]) => addFeature(featureKey, node.start, node.end));
+  };
+
+  return {
+    Identifier(path) {
+      if (path.isReferencedIdentifier()) matchGlobal(path);
+    },
+    MemberExpression: matchGlobal,
+    'ImportDeclaration|ExportNamedDeclaration|ExportAllDeclaration'(path) {
+      if (path.node.source) matchImport(path.node.source.value, path.node);
+    },
+    CallExpression(path) {
+      const [source] = path.node.arguments;
+      const callee = path.node.callee;
+      const loads = t.isImport(callee) || (t.isIdentifier(callee, { name: 'require' }) && isGlobal(path.scope, 'require'));
+      if (loads && t.isStringLiteral(source)) matchImport(source.value, path.node);
+    }
+  };
+};
+
+// One visitor running both a detector's own visitor and its matches
+export function detectorVisitor(detector: Detector, context: DetectorContext): Visitor {
+  const visitors = [
+    detector.visitor?.(context),
+    matchVisitor(detector.features ?? {}, context)
+  ].filter(Boolean);
+  return visitors.length > 0 ? traverse.visitors.merge(visitors) : {};
+}
+
+const isStringList = (value) => value === undefined || (Array.isArray(value) && value.every(entry => typeof entry === 'string'));
+
+/**
+ * Checks the shape of a detector that came from outside TypeScript, such as a
+ * config file. Support data is checked when the detector is registered.
+ */
+export function validateDetector(detector): asserts detector is Detector {
+  if (!detector || typeof detector !== 'object') throw new Error('A detector must be an object');
+  if (typeof detector.name !== 'string' || !detector.name) throw new Error('A detector needs a name');
+  const problem = (message: string) => new Error(`Detector '${detector.name}': ${message}`);
+
+  if (detector.visitor !== undefined && typeof detector.visitor !== 'function') {
+    throw problem('visitor must be a function returning a Babel visitor');
+  }
+  if (detector.features === undefined) return;
+  if (typeof detector.features !== 'object' || Array.isArray(detector.features)) throw problem('features must be an object keyed by feature id');
+  Object.entries(detector.features).forEach(([featureKey, feature]: [string, DetectorFeature]) => {
+    if (!feature || typeof feature.feature !== 'string' || typeof feature.description !== 'string') {
+      throw problem(`feature '${featureKey}' needs a feature name and a description`);
+    }
+    if (feature.match !== undefined && (!isStringList(feature.match.globals) || !isStringList(feature.match.imports))) {
+      throw problem(`feature '${featureKey}' match.globals and match.imports must be lists of strings`);
+    }
+  });
+}
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+import { CodeSyntaxError, formatParseError } from './diagnostics';
+
+const ids = (result: { features: { id: string }[] }) => result.features.map(feature => feature.id);
+
+describe('parse error recovery', () => {
+  it('analyzes the code around a syntax error', async () => {
+    const result = await analyzeCode('const a = x?.y;\nconst b = ;\n[1].at(0);\n');
+    assert.deepEqual(result.parseErrors.map(error => [error.line, error.column]), [[2, 11]]);
+    assert.ok(ids(result).includes('optional-chaining'));
+    assert.ok(ids(result).includes('array-at'));
+  });
+
+  it('keeps errors Babel recovers from itself', async () => {
+    const result = await analyzeCode('let a = 1;\nlet a = 2;\n[1].at(0);\n');
+    assert.equal(result.parseErrors.length, 1);
+    assert.equal(result.parseErrors[0].line, 2);
+    assert.ok(ids(result).includes('array-at'));
+  });
+
+  it('explains unsupported proposals and Flow', async () => {
+    const pipeline = await analyzeCode('const y = x |> f(%);\n[1].at(0);\n');
+    assert.match(pipeline.parseErrors[0].hint, /pipeline operator/);
+    assert.ok(ids(pipeline).includes('array-at'));
+
+    const flow = await analyzeCode('// @flow\nfunction f(x: ?string) {}\n');
+    assert.match(flow.parseErrors[0].hint, /Flow/);
+  });
+
+  it('throws a CodeSyntaxError when the code is cut short', async () => {
+    await assert.rejects(analyzeCode('function f() {\n  [1].at(0);\n'), (error: unknown) => {
+      assert.ok(error instanceof CodeSyntaxError);
+      assert.equal(error.parseErrors.length, 1);
+      assert.match(formatParseError(error.parseErrors[0]), /at 3:1 \(A block, bracket, string or comment isn't closed/);
+      return true;
+    });
+  });
+});
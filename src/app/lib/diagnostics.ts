@@ -0,0 +1,89 @@
+// A syntax error in analyzed code, at a 1-based line and column like FeatureLocation
+export interface ParseError {
+  message: string;
+  line: number;
+  column: number;
+  // Offset of the error in the code
+  offset: number;
+  // What probably caused it, when that can be told from the code
+  hint?: string;
+}
+
+/**
+ * Thrown when code can't be parsed even in part. `parseErrors` lists every
+ * error found while trying, the one that stopped parsing last.
+ */
+export class CodeSyntaxError extends Error {
+  parseErrors: ParseError[];
+
+  constructor(message: string, parseErrors: ParseError[]) {
+    super(message);
+    this.name = 'CodeSyntaxError';
+    this.parseErrors = parseErrors;
+  }
+}
+
+// Readable names for the proposals Babel has plugins for but the analyzer doesn't enable
+const proposalNames: Record<string, string> = {
+  pipelineOperator: 'the pipeline operator (|>)',
+  doExpressions: 'do expressions',
+  recordAndTuple: 'records and tuples (#{} and #[])',
+  throwExpressions: 'throw expressions',
+  partialApplication: 'partial application (f(?, x))',
+  asyncDoExpressions: 'async do expressions',
+  destructuringPrivate: 'destructuring private fields',
+  moduleBlocks: 'module blocks',
+  sourcePhaseImports: 'source phase imports',
+  deferredImportEvaluation: 'deferred import evaluation',
+  optionalChainingAssign: 'optional chaining assignment (a?.b = c)',
+  v8intrinsic: 'V8 intrinsics (%DebugPrint)',
+  flow: 'Flow type annotations',
+  flowComments: 'Flow comment types'
+};
+
+// A Flow pragma, or syntax only Flow has: maybe types (?string), exact objects ({| |}), opaque types and `import typeof`
+const flowPattern = /@flow\b|:\s*\?[A-Za-z_$[{(]|\{\||\bopaque\s+type\b|\bimport\s+typeof\b|\bdeclare\s+export\b/;
+
+// A TypeScript type assertion (<Type>value) or generic arrow (<T>(x) => x), which JSX reads as a tag
+const angleBracketTypePattern = /<[A-Za-z_$][\w$.]*(?:\s+extends\s+[^>]+)?>\s*[\w$(]/;
+
+const hintFor = (error, code: string, jsx: boolean, offset: number): string | undefined => {
+  const plugins: string[] = error.missingPlugin ?? [];
+  if (plugins.some(plugin => plugin === 'flow' || plugin === 'flowComments') || (plugins.length === 0 && flowPattern.test(code))) {
+    return 'The code looks like Flow, which isn\'t supported: strip its types first, for example with @babel/preset-flow';
+  }
+  if (plugins.length > 0) {
+    const names = plugins.map(plugin => proposalNames[plugin] ?? plugin).join(' or ');
+    return `This is ${names}, an unsupported proposal no browser runs: compile it away before analyzing`;
+  }
+  if (jsx && /JSX|jsx/.test(error.message) && angleBracketTypePattern.test(code)) {
+    return 'With JSX enabled, <T>(x) => x and <Type>value are read as JSX tags: write generic arrows as <T,>(x) => x and assertions as value as Type, or analyze the code as a .ts file';
+  }
+  if (offset >= code.trimEnd().length || /^Unterminated/.test(error.message)) {
+    return 'A block, bracket, string or comment isn\'t closed: the code may have been cut short';
+  }
+  return undefined;
+};
+
+/**
+ * Describes an error thrown by (or recovered from by) @babel/parser. `jsx`
+ * says whether the code was parsed with JSX, which changes what some
+ * TypeScript syntax means.
+ */
+export function describeParseError(error, code: string, jsx: boolean): ParseError {
+  const loc = error.loc ?? { line: 1, column: 0, index: 0 };
+  const offset = loc.index ?? error.pos ?? 0;
+  const hint = hintFor(error, code, jsx, offset);
+  return {
+    // Babel ends its messages with the location, which is reported separately
+    message: String(error.message).replace(/\s*\(\d+:\d+\)$/, ''),
+    line: loc.line,
+    column: loc.column + 1,
+    offset,
+    ...(hint ? { hint } : {})
+  };
+}
+
+// 'Unexpected token at 2:9', with the hint when there is one
+export const formatParseError = (error: ParseError) =>
+  `${error.message} at ${error.line}:${error.column}${error.hint ? ` (${error.hint})` : ''}`;
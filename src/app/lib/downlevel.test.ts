@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { downlevelCode } from './downlevel';
+
+describe('downlevelCode', () => {
+  it('rewrites only the syntax the targets lack', async () => {
+    const result = await downlevelCode('const a = x?.y;\nconst f = () => 1;\n', { targets: 'chrome 70' });
+    assert.deepEqual(result.features.map(feature => feature.id), ['optional-chaining']);
+    assert.ok(!result.code.includes('?.'));
+    assert.ok(result.code.includes('=>'));
+  });
+
+  it('lists runtime APIs transpiling can\'t remove, but not guarded ones', async () => {
+    const result = await downlevelCode('[1].at(-1);\nstructuredClone?.(x);\n', { targets: 'chrome 80' });
+    assert.deepEqual(result.untranspilable.map(feature => feature.id), ['array-at']);
+  });
+
+  it('also rewrites the generators async functions become when the targets lack them', async () => {
+    const code = 'async function f() {\n  await g();\n}\n';
+    const ie = await downlevelCode(code, { targets: 'ie 11' });
+    assert.deepEqual(ie.features.find(feature => feature.id === 'async-await').plugins, ['transform-async-to-generator', 'transform-regenerator']);
+    assert.ok(!ie.code.includes('function*') && !ie.code.includes('yield'));
+
+    const chrome = await downlevelCode(code, { targets: 'chrome 50' });
+    assert.deepEqual(chrome.features.find(feature => feature.id === 'async-await').plugins, ['transform-async-to-generator']);
+    assert.ok(chrome.code.includes('function* ()'));
+  });
+
+  it('moves instance fields into the constructor', async () => {
+    const result = await downlevelCode('class A {\n  x = 1;\n  static y = 2;\n}\n', { targets: 'chrome 60' });
+    assert.deepEqual(result.features.map(feature => feature.id).sort(), ['class-fields', 'static-class-fields']);
+    assert.deepEqual(result.features.find(feature => feature.id === 'class-fields').plugins, ['transform-class-properties']);
+    assert.ok(!result.code.includes('x = 1;'));
+    assert.match(result.code, /_defineProperty\(this, "x", 1\)/);
+  });
+});
@@ -0,0 +1,206 @@
+import { transform } from '@babel/standalone';
+import { diffLines } from 'diff';
+import { analyzeCode, featureSupport, legacyDecoratorParserOptions, parserOptions, type CodeSnippet } from './analyzer';
+import { checkTarget } from './targets';
+
+// Babel plugins that rewrite each syntax feature. Features without an entry
+// (modules, lookbehind, top-level await, runtime APIs) can't be transpiled away.
+const featurePlugins: Record<string, string[]> = {
+  'arrow-function': ['transform-arrow-functions'],
+  'const-declaration': ['transform-block-scoping'],
+  'let-declaration': ['transform-block-scoping'],
+  'template-literal': ['transform-template-literals'],
+  'destructuring': ['transform-destructuring', 'transform-parameters'],
+  'spread-operator': ['transform-spread', 'transform-object-rest-spread'],
+  // The generators these produce also get transform-regenerator where they're unsupported
+  'async-await': ['transform-async-to-generator'],
+  'class-declaration': ['transform-classes'],
+  'for-of': ['transform-for-of'],
+  'optional-chaining': ['transform-optional-chaining'],
+  'nullish-coalescing': ['transform-nullish-coalescing-operator'],
+  'default-parameters': ['transform-parameters'],
+  'rest-parameters': ['transform-parameters'],
+  'computed-property': ['transform-computed-properties'],
+  'shorthand-property': ['transform-shorthand-properties'],
+  'method-definition': ['transform-shorthand-properties'],
+  'generator-function': ['transform-regenerator'],
+  'private-fields': ['transform-class-properties'],
+  'class-fields': ['transform-class-properties'],
+  'static-class-fields': ['transform-class-properties'],
+  'private-methods': ['transform-private-methods', 'transform-class-properties'],
+  'logical-assignment': ['transform-logical-assignment-operators'],
+  'numeric-separators': ['transform-numeric-separator'],
+  'async-iteration': ['transform-async-generator-functions'],
+  'regex-named-groups': ['transform-named-capturing-groups-regex'],
+  'regex-unicode-property': ['transform-unicode-property-regex'],
+  'regex-s-flag': ['transform-dotall-regex'],
+  'regex-v-flag': ['transform-unicode-sets-regex'],
+  'explicit-resource-management': ['transform-explicit-resource-management']
+};
+
+// Features rewritten into generators, which older browsers lack as well
+const generatorOutput = ['async-await', 'async-iteration'];
+
+// Plugins run in @babel/preset-env's order, so newer syntax is lowered before
+// the transforms for the older syntax it turns into
+const pluginOrder = [
+  'transform-explicit-resource-management',
+  'transform-unicode-sets-regex',
+  'transform-class-properties',
+  'transform-private-methods',
+  'transform-numeric-separator',
+  'transform-logical-assignment-operators',
+  'transform-nullish-coalescing-operator',
+  'transform-optional-chaining',
+  'transform-parameters',
+  'transform-async-generator-functions',
+  'transform-object-rest-spread',
+  'transform-dotall-regex',
+  'transform-unicode-property-regex',
+  'transform-named-capturing-groups-regex',
+  'transform-async-to-generator',
+  'transform-template-literals',
+  'transform-arrow-functions',
+  'transform-classes',
+  'transform-shorthand-properties',
+  'transform-computed-properties',
+  'transform-for-of',
+  'transform-spread',
+  'transform-destructuring',
+  'transform-block-scoping',
+  'transform-regenerator'
+];
+
+export interface DownlevelFeature {
+  id: string;
+  feature: string;
+  codeSnippets: CodeSnippet[];
+  plugins: string[];
+  // Growth of the output when only this feature is rewritten
+  addedBytes: number;
+}
+
+export interface DiffRow {
+  kind: 'unchanged' | 'changed' | 'removed' | 'added';
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+export interface DownlevelResult {
+  // The input and output, printed by the same generator so only the rewrites differ
+  original: string;
+  code: string;
+  features: DownlevelFeature[];
+  // Features the targets lack that transpiling can't remove, such as runtime APIs
+  untranspilable: { id: string; feature: string }[];
+  diff: DiffRow[];
+}
+
+const compile = (code: string, plugins: string[]): string => {
+  const run = (parserOpts: typeof parserOptions) => transform(code, {
+    plugins: pluginOrder.filter(plugin => plugins.includes(plugin)),
+    parserOpts,
+    sourceType: 'module',
+    configFile: false,
+    babelrc: false
+  }).code ?? '';
+
+  // As in analyzeCode, code that only parses with legacy decorators is retried with them
+  try {
+    return run(parserOptions);
+  } catch (error) {
+    try {
+      return run(legacyDecoratorParserOptions);
+    } catch {
+      throw error;
+    }
+  }
+};
+
+// Lines of a diff chunk, without the empty entry after a trailing newline
+const chunkLines = (value: string) => value.replace(/\n$/, '').split('\n');
+
+// Pairs removed and added lines from a line diff into side-by-side rows
+export function sideBySide(original: string, rewritten: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+  let removed: string[] = [];
+
+  const flushRemoved = () => {
+    removed.forEach(text => rows.push({ kind: 'removed', left: { line: leftLine++, text } }));
+    removed = [];
+  };
+
+  diffLines(original, rewritten).forEach(change => {
+    const lines = chunkLines(change.value);
+    if (change.removed) {
+      flushRemoved();
+      removed = lines;
+    } else if (change.added) {
+      lines.forEach((text, index) => {
+        const left = removed[index];
+        rows.push({
+          kind: left !== undefined ? 'changed' : 'added',
+          ...(left !== undefined ? { left: { line: leftLine++, text: left } } : {}),
+          right: { line: rightLine++, text }
+        });
+      });
+      removed = removed.slice(lines.length);
+      flushRemoved();
+    } else {
+      flushRemoved();
+      lines.forEach(text => rows.push({ kind: 'unchanged', left: { line: leftLine++, text }, right: { line: rightLine++, text } }));
+    }
+  });
+  flushRemoved();
+  return rows;
+}
+
+/**
+ * Rewrites JavaScript so it no longer needs the syntax the target browsers lack.
+ * The features to rewrite, and their locations, come from analyzeCode; only the
+ * Babel plugins for those features run. Without targets every transpilable
+ * feature is rewritten. Each feature's cost is measured by rewriting it alone.
+ */
+export async function downlevelCode(code: string, options: { targets?: string } = {}): Promise<DownlevelResult> {
+  const analysis = await analyzeCode(code, { targets: options.targets });
+  const needed = analysis.features.filter(feature =>
+    !analysis.targets || (feature.unsupportedTargets?.length ?? 0) > 0
+  );
+
+  const generatorsNeeded = !analysis.targets ||
+    analysis.targets.browsers.some(browser => checkTarget(featureSupport('generator-function')!, browser) === 'unsupported');
+  const pluginsFor = (id: string) => generatorsNeeded && generatorOutput.includes(id)
+    ? [...featurePlugins[id], 'transform-regenerator']
+    : featurePlugins[id];
+
+  let original: string;
+  let features: DownlevelFeature[];
+  let rewritten: string;
+  try {
+    original = compile(code, []);
+    features = needed
+      .filter(feature => Object.hasOwn(featurePlugins, feature.id))
+      .map(feature => ({
+        id: feature.id,
+        feature: feature.feature,
+        codeSnippets: feature.codeSnippets,
+        plugins: pluginsFor(feature.id),
+        addedBytes: compile(code, pluginsFor(feature.id)).length - original.length
+      }));
+    rewritten = compile(code, Array.from(new Set(features.flatMap(feature => feature.plugins))));
+  } catch (error) {
+    throw new Error(`Failed to compile JavaScript code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return {
+    original,
+    code: rewritten,
+    features,
+    untranspilable: needed
+      .filter(feature => !Object.hasOwn(featurePlugins, feature.id) && !feature.polyfilledBy && !feature.compiledBy && !feature.guarded)
+      .map(feature => ({ id: feature.id, feature: feature.feature })),
+    diff: sideBySide(original, rewritten)
+  };
+}
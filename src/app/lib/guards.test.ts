@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+
+const guarded = async (code: string, id: string) =>
+  (await analyzeCode(code)).features.find(feature => feature.id === id)?.guarded ?? false;
+
+describe('feature-detection guards', () => {
+  it('recognises the common ways of checking for an API', async () => {
+    for (const code of [
+      'if (\'IntersectionObserver\' in window) new IntersectionObserver(cb);',
+      'if (typeof IntersectionObserver === \'function\') { new IntersectionObserver(cb); }',
+      'if (typeof IntersectionObserver !== \'undefined\') new IntersectionObserver(cb);',
+      'if (window.IntersectionObserver && enabled) new IntersectionObserver(cb);',
+      'const observer = window.IntersectionObserver ? new IntersectionObserver(cb) : null;',
+      'window.IntersectionObserver && new IntersectionObserver(cb);',
+      'function observe() {\n  if (!(\'IntersectionObserver\' in window)) return;\n  new IntersectionObserver(cb);\n}',
+      'if (typeof IntersectionObserver === \'undefined\') fallback(); else new IntersectionObserver(cb);'
+    ]) {
+      assert.equal(await guarded(code, 'intersectionobserver'), true, code);
+    }
+  });
+
+  it('treats an optional call on the API as guarded', async () => {
+    assert.equal(await guarded('structuredClone?.(value);', 'structuredclone'), true);
+  });
+
+  it('doesn\'t count checks for another API or the wrong branch', async () => {
+    for (const code of [
+      'if (\'ResizeObserver\' in window) new IntersectionObserver(cb);',
+      'if (!window.IntersectionObserver) new IntersectionObserver(cb);',
+      'window.IntersectionObserver || new IntersectionObserver(cb);',
+      'if (enabled || window.IntersectionObserver) new IntersectionObserver(cb);'
+    ]) {
+      assert.equal(await guarded(code, 'intersectionobserver'), false, code);
+    }
+  });
+
+  it('counts a feature as guarded only when every use is', async () => {
+    const code = 'if (\'IntersectionObserver\' in window) new IntersectionObserver(cb);\nnew IntersectionObserver(cb);\n';
+    assert.equal(await guarded(code, 'intersectionobserver'), false);
+  });
+});
@@ -0,0 +1,139 @@
+import * as t from '@babel/types';
+
+const globalObjects = ['window', 'self', 'globalThis'];
+
+// The API an expression refers to: 'IntersectionObserver' for IntersectionObserver
+// or window.IntersectionObserver, 'Object.fromEntries' for Object.fromEntries
+const referenceName = (node): string | null => {
+  if (t.isParenthesizedExpression(node)) return referenceName(node.expression);
+  if (t.isIdentifier(node)) return node.name;
+  if ((t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) && !node.computed && t.isIdentifier(node.property)) {
+    if (t.isIdentifier(node.object) && globalObjects.includes(node.object.name)) return node.property.name;
+    const object = referenceName(node.object);
+    return object ? `${object}.${node.property.name}` : null;
+  }
+  return null;
+};
+
+const isString = (node, value?: string) =>
+  t.isStringLiteral(node) && (value === undefined || node.value === value);
+
+// `typeof X` compared with a string: which API it tests and whether a true
+// comparison means the API is present
+const typeofTest = (node): { name: string; presentWhenTrue: boolean } | null => {
+  if (!t.isBinaryExpression(node) || !['===', '==', '!==', '!='].includes(node.operator)) return null;
+  const [typeofSide, literal] = t.isUnaryExpression(node.left, { operator: 'typeof' })
+    ? [node.left, node.right]
+    : [node.right, node.left];
+  if (!t.isUnaryExpression(typeofSide, { operator: 'typeof' }) || !isString(literal)) return null;
+
+  const name = referenceName(typeofSide.argument);
+  if (!name) return null;
+  const equality = node.operator === '===' || node.operator === '==';
+  // typeof X === 'undefined' tests for absence; any other type name tests for presence
+  const testsPresence = literal.value !== 'undefined';
+  return { name, presentWhenTrue: equality === testsPresence };
+};
+
+/**
+ * The APIs a condition proves present when it evaluates to `truthy`:
+ * `'X' in window`, `typeof X === 'function'`, `typeof X !== 'undefined'`,
+ * `window.X`, `X != null`, and negations and && / || combinations of them.
+ */
+const provenNames = (node, truthy: boolean): string[] => {
+  if (t.isParenthesizedExpression(node)) return provenNames(node.expression, truthy);
+  if (t.isUnaryExpression(node, { operator: '!' })) return provenNames(node.argument, !truthy);
+  if (t.isLogicalExpression(node)) {
+    // Both sides of a true && (or a false ||) hold
+    if ((node.operator === '&&' && truthy) || (node.operator === '||' && !truthy)) {
+      return [...provenNames(node.left, truthy), ...provenNames(node.right, truthy)];
+    }
+    return [];
+  }
+
+  const typeofGuard = typeofTest(node);
+  if (typeofGuard) return typeofGuard.presentWhenTrue === truthy ? [typeofGuard.name] : [];
+
+  if (t.isBinaryExpression(node, { operator: 'in' }) && isString(node.left)) {
+    if (!truthy) return [];
+    if (t.isIdentifier(node.right) && globalObjects.includes(node.right.name)) return [node.left.value];
+    const object = referenceName(node.right);
+    return object ? [`${object}.${node.left.value}`] : [];
+  }
+
+  if (t.isBinaryExpression(node) && ['!==', '!=', '===', '=='].includes(node.operator)) {
+    const [reference, other] = t.isNullLiteral(node.right) || t.isIdentifier(node.right, { name: 'undefined' })
+      ? [node.left, node.right]
+      : [node.right, node.left];
+    if (t.isNullLiteral(other) || t.isIdentifier(other, { name: 'undefined' })) {
+      const name = referenceName(reference);
+      const inequality = node.operator === '!==' || node.operator === '!=';
+      return name && inequality === truthy ? [name] : [];
+    }
+    return [];
+  }
+
+  // A bare reference is truthy only when the API exists
+  const name = truthy ? referenceName(node) : null;
+  return name ? [name] : [];
+};
+
+// Statements that never fall through to the next one
+const exits = (node): boolean => {
+  if (t.isReturnStatement(node) || t.isThrowStatement(node) || t.isBreakStatement(node) || t.isContinueStatement(node)) return true;
+  return t.isBlockStatement(node) && node.body.length > 0 && exits(node.body[node.body.length - 1]);
+};
+
+/**
+ * Whether a use of the API `name` only runs once feature detection has found the
+ * API: inside the matching branch of an if statement or conditional, on the
+ * right of a && or ||, after an `if (!X) return;` early exit, or as an optional
+ * call on the API itself (`structuredClone?.(value)`).
+ */
+export function isGuarded(path, name: string): boolean {
+  if (t.isOptionalCallExpression(path.node) && path.node.optional && referenceName(path.node.callee) === name) {
+    return true;
+  }
+
+  let child = path;
+  let parent = path.parentPath;
+  while (parent) {
+    const node = parent.node;
+    if ((parent.isIfStatement() || parent.isConditionalExpression()) && child.key !== 'test') {
+      if (provenNames(node.test, child.key === 'consequent').includes(name)) return true;
+    }
+    if (parent.isLogicalExpression() && child.key === 'right' && node.operator !== '??') {
+      if (provenNames(node.left, node.operator === '&&').includes(name)) return true;
+    }
+    // Earlier statements in the same block that exit when the API is missing
+    if (child.inList && typeof child.key === 'number') {
+      const earlier = child.container.slice(0, child.key);
+      if (earlier.some(statement =>
+        t.isIfStatement(statement) && !statement.alternate && exits(statement.consequent) &&
+        provenNames(statement.test, false).includes(name)
+      )) return true;
+    }
+    child = parent;
+    parent = parent.parentPath;
+  }
+  return false;
+}
+
+/**
+ * Whether a reference to the API `name` is the feature detection itself: the
+ * test of an if statement or conditional, or the left of a && or ||, proving
+ * the API present or missing (`if (window.X)`, `X && X.run()`, `!X || ...`).
+ */
+export function isGuardTest(path, name: string): boolean {
+  let child = path;
+  let parent = path.parentPath;
+  while (parent && (parent.isParenthesizedExpression() || parent.isUnaryExpression({ operator: '!' }) || parent.isLogicalExpression())) {
+    if (parent.isLogicalExpression() && child.key === 'left' && parent.node.operator !== '??') break;
+    child = parent;
+    parent = parent.parentPath;
+  }
+  if (!parent) return false;
+  const isTest = ((parent.isIfStatement() || parent.isConditionalExpression()) && child.key === 'test') ||
+    (parent.isLogicalExpression() && child.key === 'left' && parent.node.operator !== '??');
+  return isTest && [...provenNames(child.node, true), ...provenNames(child.node, false)].includes(name);
+}
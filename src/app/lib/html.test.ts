@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CodeSyntaxError } from './diagnostics';
+import { analyzeHtml } from './html';
+
+const page = [
+  '<!doctype html>',
+  '<dialog open>',
+  '  <img src="a.png" loading="lazy">',
+  '</dialog>',
+  '<style>',
+  '  .a:has(b) { color: red; }',
+  '</style>',
+  '<script type="module">',
+  '  const a = x?.y;',
+  '</script>',
+  '<script src="app.js"></script>',
+  ''
+].join('\n');
+
+const location = (result, id: string) => {
+  const [snippet] = result.features.find(feature => feature.id === id).codeSnippets;
+  return [snippet.matchLine, snippet.matchCol, snippet.matchText];
+};
+
+describe('HTML analysis', () => {
+  it('finds element and attribute features in the markup', async () => {
+    const result = await analyzeHtml(page);
+    assert.deepEqual(location(result, 'html-dialog'), [2, 0, '<dialog open>']);
+    assert.deepEqual(location(result, 'html-loading-lazy'), [3, 19, 'loading="lazy"']);
+  });
+
+  it('moves findings in inline blocks to their line in the document', async () => {
+    const result = await analyzeHtml(page);
+    assert.deepEqual(location(result, 'css-has'), [6, 4, ':has(']);
+    assert.deepEqual(location(result, 'optional-chaining'), [9, 12, 'x?.y']);
+  });
+
+  it('lists external scripts as imports', async () => {
+    assert.deepEqual((await analyzeHtml(page)).imports, ['./app.js']);
+  });
+
+  it('reports syntax errors in scripts at their place in the document', async () => {
+    const result = await analyzeHtml('<p>\n<script>\nconst a = ;\n[1].at(0);\n</script>\n');
+    assert.deepEqual(result.parseErrors.map(error => [error.line, error.column]), [[3, 11]]);
+
+    await assert.rejects(analyzeHtml('<p>\n<script>\nfunction f() {\n</script>\n'), (error: unknown) => {
+      assert.ok(error instanceof CodeSyntaxError);
+      assert.match(error.message, /^Inline <script> at line 2:/);
+      assert.equal(error.parseErrors[0].line, 4);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { Parser } from 'htmlparser2';
+import {
+  analyzeCode,
+  buildAnalysisResult,
+  mergeFeatures,
+  resolveFeatureMap,
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type CodeSnippet,
+  type DetectedFeature,
+  type FeatureDefinition,
+  type SourceLanguage
+} from './analyzer';
+import { analyzeCss } from './css';
+import { CodeSyntaxError, type ParseError } from './diagnostics';
+import { selectBrowsers } from './browsers';
+import { applyPolyfills } from './polyfills';
+import { createLineIndex, createSnippetCollector, createSnippetExtractor, type LineIndex } from './snippets';
+import { resolveTargets } from './targets';
+
+// HTML element and attribute feature mapping, resolved against caniuse like the JavaScript featureMap
+const htmlFeatureDefinitions: Record<string, FeatureDefinition> = {
+  'html-dialog': {
+    feature: '<dialog> Element',
+    description: 'Native modal and non-modal dialog boxes',
+    caniuseId: 'dialog'
+  },
+  'html-popover': {
+    feature: 'Popover Attribute',
+    description: 'Top-layer popovers declared with the popover attribute',
+    support: {
+      chrome: '114+',
+      firefox: '125+',
+      safari: '17+',
+      edge: '114+',
+      ie: 'No'
+    }
+  },
+  'html-loading-lazy': {
+    feature: 'Lazy Loading (loading="lazy")',
+    description: 'Deferred loading of off-screen images and iframes',
+    caniuseId: 'loading-lazy-attr'
+  },
+  'html-import-maps': {
+    feature: 'Import Maps',
+    description: 'Module specifier remapping with <script type="importmap">',
+    caniuseId: 'import-maps'
+  },
+  'html-inert': {
+    feature: 'Inert Attribute',
+    description: 'Removing a subtree from focus and interaction with inert',
+    support: {
+      chrome: '102+',
+      firefox: '112+',
+      safari: '15.5+',
+      edge: '102+',
+      ie: 'No'
+    }
+  },
+  'html-search': {
+    feature: '<search> Element',
+    description: 'Landmark element for search and filtering controls',
+    support: {
+      chrome: '118+',
+      firefox: '118+',
+      safari: '17+',
+      edge: '118+',
+      ie: 'No'
+    }
+  }
+};
+
+const htmlFeatureMap = resolveFeatureMap(htmlFeatureDefinitions, { browserOnly: true });
+
+// Feature names for the HTML findings, so the results view can group them
+export const htmlFeatureNames = Object.values(htmlFeatureMap).map(feature => feature.feature);
+
+const elementFeatures: Record<string, string> = {
+  dialog: 'html-dialog',
+  search: 'html-search'
+};
+
+const javascriptTypes = ['', 'module', 'text/javascript', 'application/javascript', 'text/ecmascript', 'application/ecmascript'];
+
+// src and href values without a scheme are relative URLs, written as './' paths so
+// project analysis follows them like relative imports
+const toSpecifier = (url: string) => {
+  if (/^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(url)) return null;
+  return url.startsWith('/') || url.startsWith('./') || url.startsWith('../') ? url : `./${url}`;
+};
+
+interface EmbeddedBlock {
+  language: Exclude<SourceLanguage, 'html'>;
+  start: number;
+  code: string;
+}
+
+// Moves a snippet found in an embedded block to its position in the HTML document
+const remapSnippet = (
+  extract: (start: number, end: number) => CodeSnippet,
+  block: EmbeddedBlock,
+  blockLines: LineIndex,
+  snippet: CodeSnippet
+): CodeSnippet => {
+  const start = block.start + blockLines.offset(snippet.matchLine, snippet.matchCol);
+  const remapped = extract(start, start + snippet.matchLength);
+  return snippet.guarded ? { ...remapped, guarded: true } : remapped;
+};
+
+/**
+ * Analyzes an HTML document: element and attribute features are detected in the
+ * markup, inline <script> and <style> blocks are sent to the JavaScript and CSS
+ * analyzers, and every snippet points at its line in the original document.
+ */
+export async function analyzeHtml(code: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const browsers = selectBrowsers(options.browsers, options.runtime);
+  const targetQuery = options.targets?.trim();
+  const targetBrowsers = targetQuery ? await resolveTargets(targetQuery) : null;
+
+  const lines = createLineIndex(code);
+  const collector = createSnippetCollector(code, { filePath: options.filePath, maxOccurrences: options.maxOccurrences });
+  const imports: Set<string> = new Set();
+  const blocks: EmbeddedBlock[] = [];
+
+  const addFeature = (featureKey: string, start: number, end: number) => collector.add(featureKey, start, end);
+
+  // Point attribute features at the attribute itself rather than the whole tag
+  const addAttributeFeature = (featureKey: string, attribute: string, tagStart: number, tagEnd: number) => {
+    const tag = code.slice(tagStart, tagEnd);
+    const match = tag.match(new RegExp(`\\s(${attribute}(\\s*=\\s*("[^"]*"|'[^']*'|[^\\s>]+))?)`, 'i'));
+    if (match?.index !== undefined) {
+      const start = tagStart + match.index + 1;
+      addFeature(featureKey, start, start + match[1].length);
+    } else {
+      addFeature(featureKey, tagStart, tagEnd);
+    }
+  };
+
+  let openBlock: { language: EmbeddedBlock['language'] | null; start: number } | null = null;
+
+  const parser: Parser = new Parser({
+    onopentag(name, attribs) {
+      const tagStart = parser.startIndex;
+      const tagEnd = parser.endIndex + 1;
+
+      if (elementFeatures[name]) {
+        addFeature(elementFeatures[name], tagStart, tagEnd);
+      }
+      if ('popover' in attribs) {
+        addAttributeFeature('html-popover', 'popover', tagStart, tagEnd);
+      }
+      if ('inert' in attribs) {
+        addAttributeFeature('html-inert', 'inert', tagStart, tagEnd);
+      }
+      if ((name === 'img' || name === 'iframe') && attribs.loading?.toLowerCase() === 'lazy') {
+        addAttributeFeature('html-loading-lazy', 'loading', tagStart, tagEnd);
+      }
+
+      if (name === 'script') {
+        const type = (attribs.type ?? '').trim().toLowerCase();
+        if (type === 'importmap') {
+          addFeature('html-import-maps', tagStart, tagEnd);
+        }
+        const specifier = attribs.src !== undefined ? toSpecifier(attribs.src) : null;
+        if (specifier) imports.add(specifier);
+        openBlock = { language: javascriptTypes.includes(type) && attribs.src === undefined ? 'javascript' : null, start: tagEnd };
+      }
+      if (name === 'style') {
+        openBlock = { language: 'css', start: tagEnd };
+      }
+      if (name === 'link' && attribs.rel?.toLowerCase().split(/\s+/).includes('stylesheet') && attribs.href !== undefined) {
+        const specifier = toSpecifier(attribs.href);
+        if (specifier) imports.add(specifier);
+      }
+    },
+    onclosetag(name) {
+      if ((name === 'script' || name === 'style') && openBlock) {
+        const end = Math.min(parser.startIndex, code.length);
+        if (openBlock.language && code.slice(openBlock.start, end).trim()) {
+          blocks.push({ language: openBlock.language, start: openBlock.start, code: code.slice(openBlock.start, end) });
+        }
+        openBlock = null;
+      }
+    }
+  }, { decodeEntities: true });
+
+  options.onProgress?.({ phase: 'parse' });
+  parser.write(code);
+  parser.end();
+
+  // Embedded blocks are analyzed without targets; they're evaluated once for the whole document
+  const embedded: DetectedFeature[][] = [];
+  const extract = createSnippetExtractor(code, options.filePath, lines);
+  const parseErrors: ParseError[] = [];
+  // Moves a parse error in a block to where it is in the document
+  const remapParseError = (block: EmbeddedBlock, error: ParseError): ParseError => {
+    const offset = block.start + error.offset;
+    const { line, column } = lines.position(offset);
+    return { ...error, line, column: column + 1, offset };
+  };
+  for (const [index, block] of blocks.entries()) {
+    options.onProgress?.({ phase: 'traverse', completed: index / blocks.length });
+    let analysis: AnalysisResult;
+    try {
+      const blockOptions = { maxOccurrences: options.maxOccurrences };
+      analysis = block.language === 'css' ? await analyzeCss(block.code, blockOptions) : await analyzeCode(block.code, blockOptions);
+    } catch (error) {
+      const line = lines.position(block.start).line;
+      const element = block.language === 'css' ? '<style>' : '<script>';
+      const message = `Inline ${element} at line ${line}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (error instanceof CodeSyntaxError) {
+        throw new CodeSyntaxError(message, [...parseErrors, ...error.parseErrors.map(parseError => remapParseError(block, parseError))]);
+      }
+      throw new Error(message);
+    }
+    analysis.parseErrors?.forEach(parseError => parseErrors.push(remapParseError(block, parseError)));
+    analysis.imports?.forEach(specifier => imports.add(specifier));
+    const blockLines = createLineIndex(block.code);
+    embedded.push(analysis.features.map(feature => ({
+      ...feature,
+      codeSnippets: feature.codeSnippets.map(snippet => remapSnippet(extract, block, blockLines, snippet))
+    })));
+  }
+
+  options.onProgress?.({ phase: 'aggregate' });
+  const htmlFeatures = collector.featureKeys().map(featureKey => ({
+    ...htmlFeatureMap[featureKey],
+    codeSnippets: collector.snippets(featureKey),
+    ...(collector.omitted(featureKey) > 0 ? { omittedOccurrences: collector.omitted(featureKey) } : {})
+  })) as DetectedFeature[];
+
+  // Polyfills loaded by one <script> cover the whole document
+  const features = applyPolyfills(mergeFeatures([...embedded, htmlFeatures], options.maxOccurrences), Array.from(imports), options.polyfills);
+  const result = buildAnalysisResult(features, targetQuery && targetBrowsers ? { query: targetQuery, browsers: targetBrowsers } : undefined, { browsers, runtime: options.runtime });
+  return { ...result, language: 'html', imports: Array.from(imports), ...(parseErrors.length > 0 ? { parseErrors } : {}) };
+}
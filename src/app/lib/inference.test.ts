@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import { analyzeCode } from './analyzer';
+import { inferReceiverType } from './inference';
+
+// The receiver type of the first method call in the code, the outermost of a chain
+const receiverOf = (code: string) => {
+  let type;
+  traverse(parse(code, { sourceType: 'module', plugins: ['typescript'] }), {
+    CallExpression(path) {
+      if (type === undefined && path.get('callee').isMemberExpression()) type = inferReceiverType(path.get('callee.object'));
+    }
+  });
+  return type;
+};
+
+describe('receiver inference', () => {
+  it('reads literals, constructors and known return types', () => {
+    assert.equal(receiverOf('[1, 2].at(0)'), 'array');
+    assert.equal(receiverOf('\'ab\'.at(0)'), 'string');
+    assert.equal(receiverOf('new Uint8Array(4).at(0)'), 'typedarray');
+    assert.equal(receiverOf('text.split(\',\').at(0)'), 'array');
+    assert.equal(receiverOf('Object.keys(o).at(0)'), 'array');
+    assert.equal(receiverOf('[1].map(f).at(0)'), 'array');
+  });
+
+  it('follows const bindings and annotations', () => {
+    assert.equal(receiverOf('const list = [1];\nlist.at(0);'), 'array');
+    assert.equal(receiverOf('function f(name: string) { return name.at(0); }'), 'string');
+    assert.equal(receiverOf('/** @param {number[]} values */\nfunction f(values) { return values.at(0); }'), 'array');
+  });
+
+  it('knows jQuery and other objects aren\'t built-ins', () => {
+    assert.equal(receiverOf('$(\'.a\').find(\'b\')'), 'other');
+    assert.equal(receiverOf('db.collection(\'users\').find({})'), 'other');
+    assert.equal(receiverOf('items.at(0)'), 'unknown');
+  });
+});
+
+describe('instance method attribution', () => {
+  const ids = async (code: string) => (await analyzeCode(code)).features.map(feature => feature.id).sort();
+
+  it('reports only the variant the receiver is inferred to be', async () => {
+    assert.deepEqual(await ids('text.split(\',\').at(-1);'), ['array-at']);
+    assert.deepEqual(await ids('\'ab\'.at(-1);'), ['string-at']);
+  });
+
+  it('reports every variant when the receiver is unknown', async () => {
+    assert.deepEqual(await ids('items.at(-1);'), ['array-at', 'string-at', 'typedarray-at']);
+  });
+
+  it('drops calls on objects that aren\'t built-ins', async () => {
+    assert.deepEqual(await ids('$(\'.a\').find(\'b\');'), []);
+  });
+});
@@ -0,0 +1,246 @@
+import * as t from '@babel/types';
+import { isGlobal } from './scope';
+
+/**
+ * What a method call's receiver is known to be: one of the built-ins with
+ * ambiguous instance methods, 'other' when it's clearly something else (a Map,
+ * a jQuery object, a user class) and 'unknown' when nothing can be inferred.
+ */
+export type ReceiverType = 'array' | 'string' | 'typedarray' | 'set' | 'iterator' | 'other' | 'unknown';
+
+const typedArrays = [
+  'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array', 'Int32Array', 'Uint32Array',
+  'Float16Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array'
+];
+
+// Instance methods whose result type follows from the receiver's type
+const arrayReturning = ['map', 'filter', 'slice', 'concat', 'flat', 'flatMap', 'toReversed', 'toSorted', 'toSpliced', 'with', 'reverse', 'sort', 'fill', 'copyWithin', 'subarray'];
+const setReturning = ['union', 'intersection', 'difference', 'symmetricDifference'];
+// Iterator helpers that return another iterator
+const iteratorReturning = ['map', 'filter', 'take', 'drop', 'flatMap'];
+const stringReturning = ['slice', 'concat', 'at', 'charAt', 'padStart', 'padEnd', 'repeat', 'replace', 'replaceAll', 'substring', 'substr', 'toLowerCase', 'toUpperCase', 'toLocaleLowerCase', 'toLocaleUpperCase', 'trim', 'trimStart', 'trimEnd', 'normalize', 'toWellFormed'];
+
+// Methods that return the same type whatever they're called on
+const knownReturns: Map<string, ReceiverType> = new Map([
+  ['split', 'array'],
+  ['join', 'string'],
+  ['toString', 'string'],
+  ['toFixed', 'string'],
+  ['toPrecision', 'string'],
+  ['toLocaleString', 'string'],
+  ['toISOString', 'string'],
+  ['toJSON', 'string'],
+  ['toDateString', 'string'],
+  ['toTimeString', 'string'],
+  ['match', 'array'],
+  ['matchAll', 'iterator'],
+  // MongoDB collections have their own find()
+  ['collection', 'other'],
+  ['querySelectorAll', 'other'],
+  ['getElementsByClassName', 'other'],
+  ['getElementsByTagName', 'other']
+]);
+
+// Static calls with a known result, keyed by 'Object.method'
+const knownStaticReturns: Map<string, ReceiverType> = new Map([
+  ['Array.from', 'array'],
+  ['Array.of', 'array'],
+  ['Object.keys', 'array'],
+  ['Object.values', 'array'],
+  ['Object.entries', 'array'],
+  ['Object.getOwnPropertyNames', 'array'],
+  ['Reflect.ownKeys', 'array'],
+  ['Iterator.from', 'iterator'],
+  ['JSON.stringify', 'string'],
+  ['String.raw', 'string'],
+  ['String.fromCharCode', 'string'],
+  ['String.fromCodePoint', 'string']
+]);
+
+const globalCalls: Map<string, ReceiverType> = new Map([
+  ['String', 'string'],
+  ['Array', 'array'],
+  ['encodeURIComponent', 'string'],
+  ['encodeURI', 'string'],
+  ['decodeURIComponent', 'string'],
+  ['decodeURI', 'string'],
+  ['atob', 'string'],
+  ['btoa', 'string'],
+  // jQuery objects have their own find(), is() and so on
+  ['$', 'other'],
+  ['jQuery', 'other']
+]);
+
+const nameType = (name: string): ReceiverType => {
+  if (name === 'Array' || name === 'ReadonlyArray') return 'array';
+  if (name === 'String' || name === 'string') return 'string';
+  if (typedArrays.includes(name)) return 'typedarray';
+  if (name === 'Set' || name === 'ReadonlySet') return 'set';
+  if (['Iterator', 'IteratorObject', 'IterableIterator', 'Generator', 'ArrayIterator', 'MapIterator', 'SetIterator'].includes(name)) return 'iterator';
+  if (['any', 'unknown', 'object', 'Object', '*', '?'].includes(name)) return 'unknown';
+  return 'other';
+};
+
+const unionType = (types: ReceiverType[]): ReceiverType =>
+  types.length > 0 && types.every(type => type === types[0]) ? types[0] : 'unknown';
+
+// TypeScript annotation → receiver type
+const fromTSType = (type): ReceiverType => {
+  if (!type) return 'unknown';
+  if (t.isTSArrayType(type) || t.isTSTupleType(type)) return 'array';
+  if (t.isTSStringKeyword(type) || t.isTSTemplateLiteralType(type)) return 'string';
+  if (t.isTSLiteralType(type)) return t.isStringLiteral(type.literal) ? 'string' : 'other';
+  if (t.isTSTypeOperator(type)) return fromTSType(type.typeAnnotation);
+  if (t.isTSParenthesizedType(type)) return fromTSType(type.typeAnnotation);
+  if (t.isTSUnionType(type)) {
+    const members = type.types.filter(member => !t.isTSNullKeyword(member) && !t.isTSUndefinedKeyword(member));
+    return unionType(members.map(fromTSType));
+  }
+  if (t.isTSTypeReference(type) && t.isIdentifier(type.typeName)) return nameType(type.typeName.name);
+  if (t.isTSAnyKeyword(type) || t.isTSUnknownKeyword(type)) return 'unknown';
+  if (t.isTSNumberKeyword(type) || t.isTSBooleanKeyword(type) || t.isTSTypeLiteral(type) || t.isTSFunctionType(type)) return 'other';
+  return 'unknown';
+};
+
+// JSDoc type expression such as 'string[]', 'Array<number>' or 'Uint8Array' → receiver type
+const fromJSDocType = (expression: string): ReceiverType => {
+  const type = expression.trim().replace(/^[?!]|[=?!]$/g, '');
+  if (type.includes('|')) {
+    return unionType(type.split('|').map(part => part.trim()).filter(part => part !== 'null' && part !== 'undefined').map(fromJSDocType));
+  }
+  if (type.endsWith('[]')) return 'array';
+  const name = type.match(/^[\w$.*]+/)?.[0];
+  return name ? nameType(name) : 'unknown';
+};
+
+const commentsOf = (node): string[] => (node?.leadingComments ?? []).map(comment => comment.value);
+
+// '@type {T}' on a declaration, or '@param {T} name' on the function declaring a parameter
+const fromJSDoc = (comments: string[], parameter?: string): ReceiverType => {
+  for (const comment of comments) {
+    const pattern = parameter
+      ? new RegExp(`@param\\s+\\{([^}]+)\\}\\s+\\[?${parameter.replace(/\$/g, '\\$')}\\b`)
+      : /@type\s+\{([^}]+)\}/;
+    const match = comment.match(pattern);
+    if (match) return fromJSDocType(match[1]);
+  }
+  return 'unknown';
+};
+
+// Comments that document a function: on the function itself or the statement declaring it
+const functionComments = (fn): string[] => {
+  let current = fn;
+  const comments: string[] = [];
+  while (current && (current.isFunction() || current.isVariableDeclarator() || current.isVariableDeclaration() || current.isExportDeclaration() || current.isObjectProperty() || current.isClassMethod())) {
+    comments.push(...commentsOf(current.node));
+    current = current.parentPath;
+  }
+  return comments;
+};
+
+const inferBinding = (path, depth: number): ReceiverType => {
+  const binding = path.scope.getBinding(path.node.name);
+  if (!binding) return 'unknown';
+
+  const declaration = binding.path;
+  if (declaration.isVariableDeclarator()) {
+    const id = declaration.node.id;
+    if (t.isIdentifier(id) && t.isTSTypeAnnotation(id.typeAnnotation)) {
+      return fromTSType(id.typeAnnotation.typeAnnotation);
+    }
+    const documented = fromJSDoc(commentsOf(declaration.parentPath?.node));
+    if (documented !== 'unknown') return documented;
+    // Reassigned variables could hold anything by the time of the call
+    if (!binding.constant || !declaration.node.init) return 'unknown';
+    return infer(declaration.get('init'), depth + 1);
+  }
+
+  if (binding.kind === 'param') {
+    const param = declaration.node;
+    const identifier = t.isAssignmentPattern(param) ? param.left : param;
+    if (t.isIdentifier(identifier) && t.isTSTypeAnnotation(identifier.typeAnnotation)) {
+      return fromTSType(identifier.typeAnnotation.typeAnnotation);
+    }
+    const fn = declaration.findParent(parent => parent.isFunction());
+    const documented = fn ? fromJSDoc(functionComments(fn), path.node.name) : 'unknown';
+    if (documented !== 'unknown') return documented;
+    if (t.isAssignmentPattern(param) && binding.constant) {
+      return infer(declaration.get('right'), depth + 1);
+    }
+    return 'unknown';
+  }
+
+  // Imports, classes and function declarations aren't arrays or strings
+  if (binding.kind === 'module') return 'unknown';
+  if (declaration.isClassDeclaration() || declaration.isFunctionDeclaration()) return 'other';
+  return 'unknown';
+};
+
+const infer = (path, depth: number): ReceiverType => {
+  if (depth > 8) return 'unknown';
+  const node = path.node;
+
+  if (t.isArrayExpression(node)) return 'array';
+  if (t.isStringLiteral(node) || t.isTemplateLiteral(node)) return 'string';
+  if (t.isNumericLiteral(node) || t.isBooleanLiteral(node) || t.isObjectExpression(node) || t.isRegExpLiteral(node) ||
+      t.isFunction(node) || t.isClassExpression(node) || t.isBigIntLiteral(node)) return 'other';
+  if (t.isBinaryExpression(node) && node.operator === '+') {
+    const sides = [infer(path.get('left'), depth + 1), infer(path.get('right'), depth + 1)];
+    return sides.includes('string') ? 'string' : 'unknown';
+  }
+
+  if (t.isParenthesizedExpression(node) || t.isTSNonNullExpression(node)) {
+    return infer(path.get('expression'), depth + 1);
+  }
+  if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node) || t.isTSTypeAssertion(node)) {
+    const annotated = fromTSType(node.typeAnnotation);
+    return annotated !== 'unknown' ? annotated : infer(path.get('expression'), depth + 1);
+  }
+
+  if (t.isIdentifier(node)) return inferBinding(path, depth);
+
+  if (t.isNewExpression(node) && t.isIdentifier(node.callee)) {
+    // A local class named like a built-in (class Array {}) is still something else
+    return isGlobal(path.scope, node.callee.name) ? nameType(node.callee.name) : 'other';
+  }
+
+  if (t.isCallExpression(node) || t.isOptionalCallExpression(node)) {
+    const callee = node.callee;
+    if (t.isIdentifier(callee) && globalCalls.has(callee.name) && isGlobal(path.scope, callee.name)) {
+      return globalCalls.get(callee.name)!;
+    }
+    // Calling a generator function returns an iterator
+    if (t.isIdentifier(callee)) {
+      const declaration = path.scope.getBinding(callee.name)?.path;
+      if (declaration?.isFunctionDeclaration() && declaration.node.generator && !declaration.node.async) return 'iterator';
+    }
+    if ((t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)) && t.isIdentifier(callee.property) && !callee.computed) {
+      const method = callee.property.name;
+      if (t.isIdentifier(callee.object)) {
+        const known = knownStaticReturns.get(`${callee.object.name}.${method}`);
+        if (known && isGlobal(path.scope, callee.object.name)) return known;
+      }
+      if (knownReturns.has(method)) return knownReturns.get(method)!;
+      // Arrays, typed arrays, Maps and Sets all list their contents through iterators;
+      // Object.keys() and friends take an argument and were matched above
+      if (['keys', 'values', 'entries'].includes(method) && node.arguments.length === 0) return 'iterator';
+
+      const receiver = infer(path.get('callee.object'), depth + 1);
+      if ((receiver === 'array' || receiver === 'typedarray') && arrayReturning.includes(method)) return receiver;
+      if (receiver === 'string' && stringReturning.includes(method)) return 'string';
+      if (receiver === 'set' && setReturning.includes(method)) return 'set';
+      if (receiver === 'iterator' && iteratorReturning.includes(method)) return 'iterator';
+    }
+  }
+
+  return 'unknown';
+};
+
+/**
+ * Infers the type of a method call's receiver from local evidence only:
+ * literals, constructors, well-known return types, const bindings and
+ * TypeScript or JSDoc annotations. Anything else is 'unknown'.
+ */
+export function inferReceiverType(path): ReceiverType {
+  return infer(path, 0);
+}
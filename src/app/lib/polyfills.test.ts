@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+import { featuresPolyfilledBy, polyfillModuleFor } from './polyfills';
+
+describe('polyfill detection', () => {
+  it('reads core-js entry points, directories and modules', () => {
+    assert.deepEqual(featuresPolyfilledBy('core-js/actual/array/flat'), ['array-flat']);
+    assert.deepEqual(featuresPolyfilledBy('core-js/modules/es.object.from-entries'), ['object-fromentries']);
+    assert.ok(featuresPolyfilledBy('core-js/stable/array').includes('array-at'));
+    assert.deepEqual(featuresPolyfilledBy('core-js/modules/es.set'), ['set-object']);
+    assert.deepEqual(featuresPolyfilledBy('core-js/actual/set'), ['set-object', 'set-methods']);
+    assert.ok(featuresPolyfilledBy('core-js').includes('structuredclone'));
+    assert.ok(!featuresPolyfilledBy('core-js/es').includes('structuredclone'));
+    assert.deepEqual(featuresPolyfilledBy('core-js/web'), ['structuredclone', 'queuemicrotask', 'url-constructor', 'urlsearchparams']);
+    assert.deepEqual(featuresPolyfilledBy('lodash'), []);
+  });
+
+  it('limits @babel/polyfill to what core-js 2 has', () => {
+    for (const specifier of ['@babel/polyfill', 'babel-polyfill']) {
+      const features = featuresPolyfilledBy(specifier);
+      assert.ok(features.includes('promise') && features.includes('object-entries'));
+      for (const id of ['array-at', 'object-hasown', 'structuredclone', 'array-findlast', 'array-flat']) {
+        assert.ok(!features.includes(id), `${specifier} ${id}`);
+      }
+    }
+  });
+
+  it('marks features polyfilled by an import in the code', async () => {
+    const result = await analyzeCode('import \'@babel/polyfill\';\nObject.entries(a);\nObject.hasOwn(a, \'b\');\n');
+    const polyfilled = Object.fromEntries(result.features.map(feature => [feature.id, feature.polyfilledBy]));
+    assert.equal(polyfilled['object-entries'], '@babel/polyfill');
+    assert.equal(polyfilled['object-hasown'], undefined);
+  });
+
+  it('recommends core-js before standalone packages', () => {
+    assert.equal(polyfillModuleFor('promise'), 'core-js/actual/promise');
+    assert.equal(polyfillModuleFor('fetch-api'), 'whatwg-fetch');
+  });
+});
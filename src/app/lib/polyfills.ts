@@ -0,0 +1,176 @@
+import type { DetectedFeature } from './analyzer';
+
+// Features core-js polyfills, keyed by feature id, with their path under a core-js
+// namespace: 'array/flat' is 'core-js/stable/array/flat' or module 'es.array.flat'
+const coreJsFeatures: Record<string, string> = {
+  'promise': 'promise',
+  'promise-allsettled': 'promise/all-settled',
+  'promise-any': 'promise/any',
+  'promise-withresolvers': 'promise/with-resolvers',
+  'map-object': 'map',
+  'set-object': 'set',
+  // Every Set method lives under its own path, so the directory is what covers them all;
+  // the es.set module is only the constructor
+  'set-methods': 'set',
+  'weakmap': 'weak-map',
+  'weakset': 'weak-set',
+  'symbol': 'symbol',
+  'reflect': 'reflect',
+  'globalthis': 'global-this',
+  'aggregate-error': 'aggregate-error',
+  'error-cause': 'error/constructor',
+  'json-parse-reviver': 'json/parse',
+  'iterator-helpers': 'iterator',
+  'iterator-from': 'iterator/from',
+  'regexp-escape': 'regexp/escape',
+  'error-iserror': 'error/is-error',
+  'math-sumprecise': 'math/sum-precise',
+  'array-from': 'array/from',
+  'array-fromasync': 'array/from-async',
+  'array-find': 'array/find',
+  'array-findindex': 'array/find-index',
+  'array-findlast': 'array/find-last',
+  'array-findlastindex': 'array/find-last-index',
+  'array-includes': 'array/includes',
+  'array-flat': 'array/flat',
+  'array-flatmap': 'array/flat-map',
+  'array-at': 'array/at',
+  'array-toreversed': 'array/to-reversed',
+  'array-tosorted': 'array/to-sorted',
+  'array-tospliced': 'array/to-spliced',
+  'array-with': 'array/with',
+  'typedarray-at': 'typed-array/at',
+  'typedarray-with': 'typed-array/with',
+  'object-assign': 'object/assign',
+  'object-keys': 'object/keys',
+  'object-values': 'object/values',
+  'object-entries': 'object/entries',
+  'object-fromentries': 'object/from-entries',
+  'object-hasown': 'object/has-own',
+  'object-groupby': 'object/group-by',
+  'string-includes': 'string/includes',
+  'string-startswith': 'string/starts-with',
+  'string-endswith': 'string/ends-with',
+  'string-repeat': 'string/repeat',
+  'string-padstart': 'string/pad-start',
+  'string-padend': 'string/pad-end',
+  'string-at': 'string/at',
+  'string-replaceall': 'string/replace-all',
+  'string-matchall': 'string/match-all',
+  'string-trimstart': 'string/trim-start',
+  'string-trimend': 'string/trim-end',
+  'string-iswellformed': 'string/is-well-formed',
+  'string-towellformed': 'string/to-well-formed',
+  // Web platform polyfills, also available under 'core-js/web'
+  'structuredclone': 'structured-clone',
+  'queuemicrotask': 'queue-microtask',
+  'url-constructor': 'url',
+  'urlsearchparams': 'url-search-params'
+};
+
+const coreJsWebFeatures = ['structuredclone', 'queuemicrotask', 'url-constructor', 'urlsearchparams'];
+
+// Features whose path is a directory of several modules, so no single core-js/modules file covers them
+const coreJsDirectoryFeatures = ['set-methods'];
+
+// @babel/polyfill bundles core-js 2, which stops at ES2017 (plus flatMap and
+// trimStart/trimEnd): Array#at, Object.hasOwn, structuredClone and later APIs aren't in it
+const babelPolyfillFeatures = [
+  'promise', 'map-object', 'set-object', 'weakmap', 'weakset', 'symbol', 'reflect',
+  'array-from', 'array-find', 'array-findindex', 'array-includes', 'array-flatmap',
+  'object-assign', 'object-keys', 'object-values', 'object-entries',
+  'string-includes', 'string-startswith', 'string-endswith', 'string-repeat',
+  'string-padstart', 'string-padend', 'string-trimstart', 'string-trimend'
+];
+
+// Standalone polyfill packages and the features they install; the first package
+// listed for a feature is the one recommended for it
+const polyfillPackages: Record<string, string[]> = {
+  'whatwg-fetch': ['fetch-api'],
+  'abortcontroller-polyfill/dist/polyfill-patch-fetch': ['abortcontroller'],
+  'abortcontroller-polyfill/dist/abortcontroller-polyfill-only': ['abortcontroller'],
+  'intersection-observer': ['intersectionobserver'],
+  'web-streams-polyfill/polyfill': ['readablestream', 'transformstream'],
+  'compression-streams-polyfill': ['compressionstream'],
+  'event-source-polyfill': ['eventsource'],
+  'url-polyfill': ['url-constructor', 'urlsearchparams'],
+  'temporal-polyfill/global': ['temporal'],
+  '@formatjs/intl-relativetimeformat/polyfill': ['intl-relativetimeformat'],
+  '@formatjs/intl-listformat/polyfill': ['intl-listformat'],
+  '@oddbird/popover-polyfill': ['html-popover'],
+  'wicg-inert': ['html-inert'],
+  'focus-visible': ['css-focus-visible'],
+  'focus-within-polyfill': ['css-focus-within'],
+  'container-query-polyfill': ['css-container-queries'],
+  '@oddbird/css-anchor-positioning': ['css-anchor-positioning'],
+  '@babel/polyfill': babelPolyfillFeatures,
+  'babel-polyfill': babelPolyfillFeatures
+};
+
+const coreJsEntryPattern = /^core-js(?:\/(es|stable|actual|full|features|web)(?:\/(.+?))?)?(?:\/index)?(?:\.js)?$/;
+const coreJsModulePattern = /^core-js\/modules\/(es|esnext|web)\.(.+?)(?:\.js)?$/;
+
+// Namespace and path a core-js specifier installs; a missing path is the whole namespace
+const parseCoreJs = (specifier: string): { namespace: string; path?: string; module?: boolean } | null => {
+  const coreJsModule = specifier.match(coreJsModulePattern);
+  if (coreJsModule) {
+    return { namespace: coreJsModule[1] === 'web' ? 'web' : 'es', path: coreJsModule[2].replace(/\./g, '/'), module: true };
+  }
+  const entry = specifier.match(coreJsEntryPattern);
+  if (!entry) return null;
+  return { namespace: entry[1] ?? 'full', path: entry[2] };
+};
+
+/**
+ * Ids of the features a module polyfills when imported, such as
+ * ['array-flat'] for 'core-js/actual/array/flat'. Importing a directory
+ * ('core-js/stable/array') or a whole namespace ('core-js/stable') covers
+ * everything beneath it. Returns an empty list for other modules.
+ */
+export function featuresPolyfilledBy(specifier: string): string[] {
+  if (Object.hasOwn(polyfillPackages, specifier)) return polyfillPackages[specifier];
+
+  const coreJs = parseCoreJs(specifier);
+  if (!coreJs) return [];
+  return Object.entries(coreJsFeatures)
+    .filter(([id, path]) => {
+      const web = coreJsWebFeatures.includes(id);
+      if (web ? coreJs.namespace === 'es' : coreJs.namespace === 'web') return false;
+      if (coreJs.module && coreJsDirectoryFeatures.includes(id)) return false;
+      return !coreJs.path || path === coreJs.path || path.startsWith(`${coreJs.path}/`);
+    })
+    .map(([id]) => id);
+}
+
+// The module to import to polyfill a feature: core-js when it covers the feature, otherwise a standalone package
+export function polyfillModuleFor(id: string): string | undefined {
+  if (Object.hasOwn(coreJsFeatures, id)) return `core-js/actual/${coreJsFeatures[id]}`;
+  return Object.keys(polyfillPackages).find(specifier => polyfillPackages[specifier].includes(id));
+}
+
+/**
+ * Marks the features covered by a polyfill, either imported by the analyzed code or
+ * configured: configured entries are feature ids ('array-flat') or polyfill modules
+ * ('core-js/stable/array'). Polyfilled features are reported with `polyfilledBy`
+ * and left out of minimumVersions and target checks by buildAnalysisResult.
+ */
+export function applyPolyfills(features: DetectedFeature[], imports: string[] = [], configured: string[] = []): DetectedFeature[] {
+  const polyfilledBy: Map<string, string> = new Map();
+  const add = (id: string, source: string) => {
+    if (!polyfilledBy.has(id)) polyfilledBy.set(id, source);
+  };
+
+  configured.map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const modules = featuresPolyfilledBy(entry);
+    if (modules.length > 0) {
+      modules.forEach(id => add(id, entry));
+    } else {
+      add(entry, 'configuration');
+    }
+  });
+  imports.forEach(specifier => featuresPolyfilledBy(specifier).forEach(id => add(id, specifier)));
+
+  return features.map(feature =>
+    polyfilledBy.has(feature.id) ? { ...feature, polyfilledBy: polyfilledBy.get(feature.id) } : feature
+  );
+}
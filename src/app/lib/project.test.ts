@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode, mergeFeatures } from './analyzer';
+import { analyzeProject, type ProjectHost } from './project';
+
+const memoryHost = (files: Record<string, string>): ProjectHost => ({
+  readFile: async path => files[path],
+  resolveImport: async specifier => {
+    const path = `/${specifier.replace(/^\.\//, '')}`;
+    return Object.hasOwn(files, path) ? path : null;
+  }
+});
+
+describe('project analysis', () => {
+  it('follows relative imports and merges each feature across files', async () => {
+    const result = await analyzeProject(['/a.js'], memoryHost({
+      '/a.js': 'import \'./b.js\';\n[1].at(0);\n',
+      '/b.js': '[2].at(0);\n'
+    }));
+    assert.deepEqual(result.files.map(file => file.path), ['/a.js', '/b.js']);
+    const arrayAt = result.features.find(feature => feature.id === 'array-at');
+    assert.deepEqual(arrayAt.codeSnippets.map(snippet => snippet.file), ['/a.js', '/b.js']);
+  });
+
+  it('keeps to the occurrence limit across files', async () => {
+    const result = await analyzeProject(['/a.js'], memoryHost({
+      '/a.js': 'import \'./b.js\';\n[1].at(0);\n[2].at(0);\n',
+      '/b.js': '[3].at(0);\n[4].at(0);\n[5].at(0);\n'
+    }), { maxOccurrences: 2 });
+    const arrayAt = result.features.find(feature => feature.id === 'array-at');
+    assert.equal(arrayAt.codeSnippets.length, 2);
+    assert.equal(arrayAt.omittedOccurrences, 3);
+  });
+
+  it('merges features by id, not by display name', async () => {
+    const [first] = (await analyzeCode('[1].at(0);')).features;
+    const [second] = (await analyzeCode('x?.y;')).features;
+    const merged = mergeFeatures([[{ ...first, feature: 'Same name' }], [{ ...second, feature: 'Same name' }]]);
+    assert.deepEqual(merged.map(feature => feature.id), ['array-at', 'optional-chaining']);
+  });
+});
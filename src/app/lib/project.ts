@@ -0,0 +1,89 @@
+import {
+  buildAnalysisResult,
+  mergeFeatures,
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type FileAnalysis
+} from './analyzer';
+import { selectBrowsers } from './browsers';
+import { applyBuild } from './build';
+import { CodeSyntaxError } from './diagnostics';
+import { applyPolyfills } from './polyfills';
+import { analyzeSource } from './source';
+import { resolveTargets } from './targets';
+
+// File access for project analysis, so the import graph can be walked on disk
+// (CLI) or over an in-memory set of files
+export interface ProjectHost {
+  readFile(path: string): Promise<string>;
+  // Returns null when the specifier doesn't resolve to a file
+  resolveImport(specifier: string, importer: string): Promise<string | null>;
+}
+
+const isRelative = (specifier: string) =>
+  specifier.startsWith('./') || specifier.startsWith('../') || specifier.startsWith('/');
+
+const analyzablePattern = /\.((m|c)?(j|t)sx?|css)$/;
+
+/**
+ * Analyzes every module reachable from the entry files through relative static
+ * imports, re-exports and import() calls with a literal specifier; imported
+ * stylesheets are analyzed as CSS. Package imports are not followed. Features
+ * are merged across files into a single AnalysisResult, with the per-file
+ * results in `files`.
+ */
+export async function analyzeProject(
+  entries: string[],
+  host: ProjectHost,
+  options: Omit<AnalyzeOptions, 'filePath'> = {}
+): Promise<AnalysisResult> {
+  const browsers = selectBrowsers(options.browsers, options.runtime);
+  const targetQuery = options.targets?.trim();
+  const targetBrowsers = targetQuery ? await resolveTargets(targetQuery) : null;
+  const buildBrowsers = options.build?.targets ? await resolveTargets(options.build.targets) : null;
+
+  const queue = [...entries];
+  const visited: Set<string> = new Set();
+  const files: FileAnalysis[] = [];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    if (visited.has(file)) continue;
+    visited.add(file);
+
+    try {
+      const code = await host.readFile(file);
+      const analysis = await analyzeSource(code, { ...options, filePath: file });
+
+      const unresolvedImports: string[] = [];
+      for (const specifier of analysis.imports ?? []) {
+        if (!isRelative(specifier)) continue;
+        const resolved = await host.resolveImport(specifier, file);
+        if (resolved === null) {
+          unresolvedImports.push(specifier);
+        } else if (analyzablePattern.test(resolved)) {
+          queue.push(resolved);
+        }
+      }
+
+      files.push({ path: file, analysis, ...(unresolvedImports.length > 0 ? { unresolvedImports } : {}) });
+    } catch (error) {
+      files.push({
+        path: file,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof CodeSyntaxError ? { parseErrors: error.parseErrors } : {})
+      });
+    }
+  }
+
+  // A polyfill imported by any module (usually the entry) covers the whole project
+  const imports = files.flatMap(file => file.analysis?.imports ?? []);
+  const features = applyPolyfills(mergeFeatures(files.map(file => file.analysis?.features ?? []), options.maxOccurrences), imports, options.polyfills);
+  const built = options.build ? applyBuild(features, options.build, buildBrowsers) : null;
+  const result = buildAnalysisResult(
+    built?.features ?? features,
+    targetQuery && targetBrowsers ? { query: targetQuery, browsers: targetBrowsers } : undefined,
+    { browsers, runtime: options.runtime, typescript: options.typescript }
+  );
+  return { ...result, ...(built ? { build: built.summary } : {}), files };
+}
@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { remediationFor } from './remediation';
+
+describe('remediations', () => {
+  it('compiles standard syntax with preset-env', () => {
+    assert.deepEqual(remediationFor('optional-chaining'), { strategy: 'transpile', module: '@babel/preset-env' });
+  });
+
+  it('names the Babel plugin for proposals preset-env doesn\'t compile', () => {
+    assert.equal(remediationFor('decorators').module, '@babel/plugin-proposal-decorators');
+    assert.equal(remediationFor('explicit-resource-management').module, '@babel/plugin-proposal-explicit-resource-management');
+  });
+
+  it('polyfills APIs and explains what can\'t be', () => {
+    assert.deepEqual(remediationFor('array-at'), { strategy: 'polyfill', module: 'core-js/actual/array/at' });
+    assert.equal(remediationFor('proxy').strategy, 'none');
+  });
+});
@@ -0,0 +1,112 @@
+import { polyfillModuleFor } from './polyfills';
+
+/**
+ * How to make a feature work in browsers that lack it:
+ * - 'transpile': a compiler rewrites it into older syntax (`module` names the preset or plugin)
+ * - 'polyfill': a script adds it at runtime (`module` is what to import)
+ * - 'none': it can't be added, so it needs feature detection or a fallback
+ */
+export interface Remediation {
+  strategy: 'transpile' | 'polyfill' | 'none';
+  module?: string;
+  notes?: string;
+}
+
+// JavaScript syntax that Babel (with preset-env) or SWC compile for older browsers
+export const transpiledSyntax = [
+  'arrow-function', 'const-declaration', 'let-declaration', 'template-literal', 'destructuring', 'spread-operator',
+  'async-await', 'class-declaration', 'for-of', 'optional-chaining', 'nullish-coalescing', 'default-parameters',
+  'rest-parameters', 'computed-property', 'shorthand-property', 'method-definition', 'generator-function',
+  'private-fields', 'class-fields', 'static-class-fields', 'private-methods', 'logical-assignment', 'numeric-separators',
+  'async-iteration', 'regex-named-groups', 'regex-unicode-property', 'regex-s-flag', 'regex-v-flag'
+];
+
+// Syntax preset-env leaves alone until it's standardized, which needs its own Babel plugin
+export const proposalPlugins: Record<string, string> = {
+  'decorators': '@babel/plugin-proposal-decorators',
+  'explicit-resource-management': '@babel/plugin-proposal-explicit-resource-management'
+};
+
+// Module syntax is rewritten by the bundler rather than the compiler
+const bundledSyntax = [
+  'import-statement', 'export-statement', 'dynamic-import', 'import-meta', 'import-attributes', 'import-assertions', 'hashbang'
+];
+
+// CSS that PostCSS plugins (all included in postcss-preset-env) compile for older browsers
+const cssPlugins: Record<string, Remediation> = {
+  'css-nesting': { strategy: 'transpile', module: 'postcss-nesting' },
+  'css-is-where': { strategy: 'transpile', module: 'postcss-is-pseudo-class', notes: 'Complex selectors inside :is() are left as they are' },
+  'css-media-range': { strategy: 'transpile', module: 'postcss-media-minmax' },
+  'css-cascade-layers': { strategy: 'transpile', module: '@csstools/postcss-cascade-layers' },
+  'css-logical-properties': { strategy: 'transpile', module: 'postcss-logical' },
+  'css-variables': { strategy: 'transpile', module: 'postcss-custom-properties', notes: 'Only values known at build time get a fallback' },
+  'css-color-mix': { strategy: 'transpile', module: '@csstools/postcss-color-mix-function' },
+  'css-lab-colors': { strategy: 'transpile', module: '@csstools/postcss-lab-function' },
+  'css-relative-colors': { strategy: 'transpile', module: '@csstools/postcss-relative-color-syntax' }
+};
+
+// Polyfills that need more than importing them
+const manualPolyfills: Record<string, Remediation> = {
+  'resizeobserver': { strategy: 'polyfill', module: '@juggle/resize-observer', notes: 'Exports ResizeObserver rather than installing it globally' },
+  'float16array': { strategy: 'polyfill', module: '@petamoriken/float16', notes: 'Exports Float16Array and f16round rather than installing them globally' },
+  'html-dialog': { strategy: 'polyfill', module: 'dialog-polyfill', notes: 'Call dialogPolyfill.registerDialog() for each <dialog>' },
+  'html-import-maps': { strategy: 'polyfill', module: 'es-module-shims', notes: 'Load it with a <script> before the first module script' },
+  'css-has': { strategy: 'polyfill', module: 'css-has-pseudo', notes: 'Pairs a PostCSS plugin with a browser script' }
+};
+
+// Features no polyfill or compiler can provide, with what to do instead
+const unpolyfillable: Record<string, string> = {
+  'proxy': 'Proxy traps intercept operations that older engines have no hook for',
+  'bigint': 'BigInt literals and operators need engine support; JSBI is a library alternative',
+  'bigint64array': 'Needs BigInt support',
+  'biguint64array': 'Needs BigInt support',
+  'weakref': 'Garbage collection can\'t be observed without engine support',
+  'finalizationregistry': 'Garbage collection can\'t be observed without engine support',
+  'sharedarraybuffer': 'Shared memory needs engine support and a cross-origin isolated page',
+  'atomics': 'Shared memory needs engine support and a cross-origin isolated page',
+  'resizable-arraybuffer': 'Allocate a new ArrayBuffer and copy instead',
+  'regex-lookbehind': 'Lookbehind can\'t be rewritten into older regular expressions',
+  'regex-match-indices': 'Compute indices from match.index and the captured groups instead',
+  'top-level-await': 'Wrap the module body in an async function',
+  'localstorage': 'Check for it and fall back to in-memory storage',
+  'sessionstorage': 'Check for it and fall back to in-memory storage',
+  'indexeddb': 'Check for it and fall back to another storage mechanism',
+  'websocket': 'Check for it and fall back to polling with fetch()',
+  'beacon': 'Fall back to fetch(), which may be cancelled as the page unloads',
+  'cache-api': 'Check for it and fetch from the network instead',
+  'fetch-keepalive': 'Browsers without it ignore the option, so the request may be cancelled as the page unloads',
+  'fetch-priority': 'Browsers without it ignore the option, which is safe',
+  'storage-estimate': 'Check for it before calling it',
+  'storage-persist': 'Check for it; storage stays best-effort without it',
+  'storage-buckets': 'Check for it and fall back to the origin\'s default storage',
+  'mutationobserver': 'Check for it before observing',
+  'crypto-getrandomvalues': 'Randomness suitable for cryptography needs the Web Crypto API',
+  'crypto-randomuuid': 'Build a version 4 UUID from crypto.getRandomValues() instead',
+  'performance-now': 'Date.now() is a lower-resolution fallback',
+  'reporterror': 'Fall back to console.error()',
+  'html-loading-lazy': 'Older browsers load the resource straight away, which is safe',
+  'html-search': 'Older browsers render it as an unknown element; add role="search" for assistive technology'
+};
+
+/**
+ * The remediation for a feature in the feature map, looked up by feature id.
+ * Transpilable syntax and unpolyfillable features are listed here; polyfills
+ * come from the same tables used to recognise polyfill imports.
+ */
+export function remediationFor(id: string): Remediation {
+  if (Object.hasOwn(proposalPlugins, id)) return { strategy: 'transpile', module: proposalPlugins[id] };
+  if (transpiledSyntax.includes(id)) return { strategy: 'transpile', module: '@babel/preset-env' };
+  if (bundledSyntax.includes(id)) {
+    return { strategy: 'transpile', notes: 'Bundlers such as webpack, Rollup and esbuild rewrite modules for older browsers' };
+  }
+  if (Object.hasOwn(cssPlugins, id)) return cssPlugins[id];
+  if (Object.hasOwn(manualPolyfills, id)) return manualPolyfills[id];
+
+  const polyfill = polyfillModuleFor(id);
+  if (polyfill) return { strategy: 'polyfill', module: polyfill };
+
+  if (Object.hasOwn(unpolyfillable, id)) return { strategy: 'none', notes: unpolyfillable[id] };
+  return id.startsWith('css-')
+    ? { strategy: 'none', notes: 'Provide a fallback declaration or wrap it in @supports' }
+    : { strategy: 'none' };
+}
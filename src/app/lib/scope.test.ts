@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import { analyzeCode } from './analyzer';
+import { globalPath, globalReference } from './scope';
+
+// What the first expression statement's expression refers to
+const reference = (code: string, read: typeof globalReference) => {
+  let name;
+  traverse(parse(code, { sourceType: 'module' }), {
+    ExpressionStatement(path) {
+      if (name === undefined) name = read(path.get('expression'));
+    }
+  });
+  return name;
+};
+
+describe('global references', () => {
+  it('resolves globals and properties of the global object', () => {
+    assert.equal(reference('fetch;', globalReference), 'fetch');
+    assert.equal(reference('window.fetch;', globalReference), 'fetch');
+    assert.equal(reference('globalThis.navigator.storage.estimate;', globalPath), 'navigator.storage.estimate');
+  });
+
+  it('ignores local bindings that shadow a global', () => {
+    assert.equal(reference('import fetch from \'node-fetch\';\nfetch;', globalReference), null);
+    assert.equal(reference('const window = {};\nwindow.fetch;', globalReference), null);
+    assert.equal(reference('function f(navigator) { navigator.storage; }\nf;', globalReference), null);
+  });
+});
+
+describe('shadowed globals', () => {
+  const ids = async (code: string) => (await analyzeCode(code)).features.map(feature => feature.id).sort();
+
+  it('reports a global API that isn\'t shadowed', async () => {
+    assert.deepEqual(await ids('structuredClone(a);'), ['structuredclone']);
+    assert.deepEqual(await ids('new IntersectionObserver(cb);'), ['intersectionobserver']);
+  });
+
+  it('skips user-defined functions, parameters and imports with the same name', async () => {
+    assert.deepEqual(await ids('function structuredClone(v) { return v; }\nstructuredClone(a);'), []);
+    assert.deepEqual(await ids('function observe(IntersectionObserver) { return new IntersectionObserver(cb); }'), []);
+    assert.deepEqual(await ids('import { Object } from \'./object\';\nObject.hasOwn(a, \'b\');'), ['import-statement']);
+  });
+});
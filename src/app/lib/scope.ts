@@ -0,0 +1,38 @@
+import * as t from '@babel/types';
+
+// Properties of the global object can also be reached through these names
+const globalObjects = ['window', 'self', 'globalThis'];
+
+// True when nothing in scope declares `name`, so it resolves to the global object.
+// scope.hasBinding() can't be used here: it also answers true for known globals.
+export const isGlobal = (scope, name: string): boolean => !scope.getBinding(name);
+
+/**
+ * The global an expression refers to: an identifier that isn't declared
+ * anywhere in scope (`fetch`), or a property read off the global object
+ * (`window.fetch`, `globalThis.Map`). Returns null for local bindings such as
+ * parameters, imports and user-defined functions that shadow a global.
+ */
+export function globalReference(path): string | null {
+  const node = path.node;
+  if (t.isIdentifier(node)) {
+    return isGlobal(path.scope, node.name) ? node.name : null;
+  }
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.object) && t.isIdentifier(node.property) &&
+      globalObjects.includes(node.object.name) && isGlobal(path.scope, node.object.name)) {
+    return node.property.name;
+  }
+  return null;
+}
+
+// The dotted global path an expression reads: 'navigator.storage.estimate' for window.navigator.storage.estimate
+export function globalPath(path): string | null {
+  const reference = globalReference(path);
+  if (reference) return reference;
+  const node = path.node;
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+    const object = globalPath(path.get('object'));
+    return object ? `${object}.${node.property.name}` : null;
+  }
+  return null;
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createLineIndex, createSnippetCollector, createSnippetExtractor } from './snippets';
+
+describe('line index', () => {
+  const index = createLineIndex('ab\ncd\n\nef');
+
+  it('converts between offsets and lines', () => {
+    assert.equal(index.lineCount, 4);
+    assert.deepEqual(index.position(0), { line: 1, column: 0 });
+    assert.deepEqual(index.position(4), { line: 2, column: 1 });
+    assert.deepEqual(index.position(7), { line: 4, column: 0 });
+    assert.equal(index.offset(2, 1), 4);
+    assert.equal(index.line(2), 'cd');
+    assert.equal(index.line(3), '');
+  });
+
+  it('clamps lines outside the code', () => {
+    assert.equal(index.line(0), 'ab');
+    assert.equal(index.line(9), 'ef');
+  });
+});
+
+describe('snippet extraction', () => {
+  it('shows two lines of context either side of the match', () => {
+    const code = ['a', 'b', 'c', 'x?.y', 'd', 'e', 'f'].join('\n');
+    const start = code.indexOf('x?.y');
+    const snippet = createSnippetExtractor(code, 'a.js')(start, start + 4);
+    assert.deepEqual(snippet, {
+      file: 'a.js',
+      text: 'b\nc\nx?.y\nd\ne',
+      startLine: 2,
+      matchLine: 4,
+      matchCol: 0,
+      matchLength: 4,
+      matchText: 'x?.y'
+    });
+  });
+
+  it('cuts long lines to a window around the match', () => {
+    const code = `${'a'.repeat(300)}x?.y${'b'.repeat(300)}`;
+    const snippet = createSnippetExtractor(code)(300, 304);
+    assert.equal(snippet.textColumn, 260);
+    assert.equal(snippet.text.length, 160);
+    assert.equal(snippet.text.slice(40, 44), 'x?.y');
+  });
+});
+
+describe('snippet collection', () => {
+  const code = 'a;b;c;d;';
+  const offsetOf = (name: string) => code.indexOf(name);
+
+  it('keeps the first occurrences and counts the rest', () => {
+    const collector = createSnippetCollector(code, { maxOccurrences: 2 });
+    ['a', 'b', 'c'].forEach(name => collector.add('feature', offsetOf(name), offsetOf(name) + 1));
+    assert.deepEqual(collector.snippets('feature').map(snippet => snippet.matchText), ['a', 'b']);
+    assert.equal(collector.omitted('feature'), 1);
+  });
+
+  it('swaps in an unguarded use past the limit when every kept one is guarded', () => {
+    const collector = createSnippetCollector(code, { maxOccurrences: 2 });
+    collector.add('feature', offsetOf('a'), offsetOf('a') + 1, true);
+    collector.add('feature', offsetOf('b'), offsetOf('b') + 1, true);
+    collector.add('feature', offsetOf('c'), offsetOf('c') + 1);
+    collector.add('feature', offsetOf('d'), offsetOf('d') + 1);
+    assert.deepEqual(collector.snippets('feature').map(snippet => [snippet.matchText, snippet.guarded ?? false]), [['a', true], ['c', false]]);
+    assert.equal(collector.omitted('feature'), 2);
+  });
+
+  it('records features found without a position', () => {
+    const collector = createSnippetCollector(code);
+    collector.add('feature');
+    assert.deepEqual(collector.featureKeys(), ['feature']);
+    assert.deepEqual(collector.snippets('feature'), []);
+  });
+});
@@ -0,0 +1,143 @@
+import type { CodeSnippet } from './analyzer';
+
+// Lines of context shown either side of a match
+const contextLines = 2;
+// Lines of a multi-line match that are shown: an arrow wrapping a long function shows its start, not all of it
+const maxMatchLines = 3;
+// Longest line shown whole; longer ones, as in minified code, are cut to a window around the match
+const maxLineWidth = 160;
+// Characters shown before the match when lines are cut
+const windowLead = 40;
+
+// Occurrences of one feature that get a snippet; further ones are only counted
+export const defaultMaxOccurrences = 100;
+
+export interface LineIndex {
+  lineCount: number;
+  // 1-based line and 0-based column of an offset
+  position: (offset: number) => { line: number; column: number };
+  // Offset of a 1-based line and 0-based column
+  offset: (line: number, column?: number) => number;
+  // A 1-based line, without its line break
+  line: (line: number) => string;
+}
+
+/**
+ * Indexes where each line of the code starts, so offsets and lines are
+ * converted with a binary search instead of by scanning the code each time.
+ */
+export function createLineIndex(code: string): LineIndex {
+  const starts = [0];
+  for (let i = code.indexOf('\n'); i !== -1; i = code.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+
+  const clampLine = (line: number) => Math.min(Math.max(line, 1), starts.length);
+  const lineEnd = (line: number) => (line < starts.length ? starts[line] - 1 : code.length);
+
+  return {
+    lineCount: starts.length,
+    position(offset) {
+      let low = 0;
+      let high = starts.length - 1;
+      while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (starts[middle] <= offset) low = middle;
+        else high = middle - 1;
+      }
+      return { line: low + 1, column: offset - starts[low] };
+    },
+    offset: (line, column = 0) => starts[clampLine(line) - 1] + column,
+    line(line) {
+      const clamped = clampLine(line);
+      return code.slice(starts[clamped - 1], lineEnd(clamped));
+    }
+  };
+}
+
+/**
+ * Returns a function that extracts the snippet for a matched range: the
+ * start of the match with two lines of context either side. Only the first
+ * lines of a multi-line match are included, and lines too long to show are
+ * cut to a window around the match, recorded in `textColumn`.
+ */
+export function createSnippetExtractor(code: string, filePath?: string, index = createLineIndex(code)) {
+  return (start: number, end: number): CodeSnippet => {
+    const { line: matchLine, column: matchCol } = index.position(start);
+    const endLine = Math.min(index.position(end).line, matchLine + maxMatchLines - 1);
+    const firstLine = Math.max(1, matchLine - contextLines);
+    const lastLine = Math.min(index.lineCount, endLine + contextLines);
+
+    const lines: string[] = [];
+    for (let line = firstLine; line <= lastLine; line++) lines.push(index.line(line));
+    const clipped = lines.some(line => line.length > maxLineWidth);
+    const textColumn = clipped ? Math.max(0, matchCol - windowLead) : 0;
+
+    // The match text stops at the end of its first line, or where the window does
+    const matchEnd = Math.min(end, start + index.line(matchLine).length - matchCol, start + textColumn + maxLineWidth - matchCol);
+
+    return {
+      ...(filePath ? { file: filePath } : {}),
+      text: (clipped ? lines.map(line => line.slice(textColumn, textColumn + maxLineWidth)) : lines).join('\n'),
+      ...(textColumn > 0 ? { textColumn } : {}),
+      startLine: firstLine,
+      matchLine,
+      matchCol,
+      matchLength: end - start,
+      matchText: code.slice(start, Math.max(matchEnd, start))
+    };
+  };
+}
+
+export interface SnippetCollector {
+  // Records a use of a feature; a use without a position is recorded without a snippet
+  add: (featureKey: string, start?: number | null, end?: number | null, guarded?: boolean) => void;
+  // Features recorded so far, in the order they were first found
+  featureKeys: () => string[];
+  snippets: (featureKey: string) => CodeSnippet[];
+  // Uses beyond the occurrence limit, which have no snippet
+  omitted: (featureKey: string) => number;
+}
+
+/**
+ * Collects the snippets for the features found in one piece of code, up to
+ * `maxOccurrences` per feature. Snippets past the limit aren't extracted, but
+ * an unguarded use replaces a guarded snippet when all of them are guarded,
+ * since a feature only counts as guarded when every use of it is.
+ */
+export function createSnippetCollector(
+  code: string,
+  { filePath, maxOccurrences = defaultMaxOccurrences }: { filePath?: string; maxOccurrences?: number } = {}
+): SnippetCollector {
+  const extract = createSnippetExtractor(code, filePath);
+  const featureSnippets: Map<string, CodeSnippet[]> = new Map();
+  const omittedCounts: Map<string, number> = new Map();
+  // Features with an unguarded use among their snippets
+  const unguarded: Set<string> = new Set();
+
+  return {
+    add(featureKey, start, end, guarded = false) {
+      if (!featureSnippets.has(featureKey)) featureSnippets.set(featureKey, []);
+      if (start === null || start === undefined || end === null || end === undefined) return;
+
+      const snippets = featureSnippets.get(featureKey)!;
+      const snippet = () => {
+        const extracted = extract(start, end);
+        return guarded ? { ...extracted, guarded } : extracted;
+      };
+      if (snippets.length < maxOccurrences) {
+        snippets.push(snippet());
+        if (!guarded) unguarded.add(featureKey);
+        return;
+      }
+      omittedCounts.set(featureKey, (omittedCounts.get(featureKey) ?? 0) + 1);
+      if (!guarded && !unguarded.has(featureKey)) {
+        snippets[snippets.length - 1] = snippet();
+        unguarded.add(featureKey);
+      }
+    },
+    featureKeys: () => Array.from(featureSnippets.keys()),
+    snippets: featureKey => featureSnippets.get(featureKey) ?? [],
+    omitted: featureKey => omittedCounts.get(featureKey) ?? 0
+  };
+}
@@ -0,0 +1,31 @@
+import { analyzeCode, type AnalysisResult, type AnalyzeOptions, type SourceLanguage } from './analyzer';
+import { analyzeCss, looksLikeCss } from './css';
+import { analyzeHtml } from './html';
+
+export interface AnalyzeSourceOptions extends AnalyzeOptions {
+  // Language of the code; detected from the file extension or contents when 'auto' or omitted
+  language?: SourceLanguage | 'auto';
+}
+
+const cssPattern = /\.css$/i;
+const htmlPattern = /\.html?$/i;
+
+// Markup starts with a doctype, comment or tag; JavaScript (even JSX) rarely does
+const looksLikeHtml = (code: string) => /^\s*<(!doctype|!--|[a-z])/i.test(code);
+
+export function detectLanguage(code: string, filePath?: string): SourceLanguage {
+  if (filePath) {
+    if (htmlPattern.test(filePath)) return 'html';
+    return cssPattern.test(filePath) ? 'css' : 'javascript';
+  }
+  if (looksLikeHtml(code)) return 'html';
+  return looksLikeCss(code) ? 'css' : 'javascript';
+}
+
+// Runs the analyzer for the code's language
+export async function analyzeSource(code: string, options: AnalyzeSourceOptions = {}): Promise<AnalysisResult> {
+  const { language = 'auto', ...analyzeOptions } = options;
+  const resolved = language === 'auto' ? detectLanguage(code, options.filePath) : language;
+  if (resolved === 'html') return analyzeHtml(code, analyzeOptions);
+  return resolved === 'css' ? analyzeCss(code, analyzeOptions) : analyzeCode(code, analyzeOptions);
+}
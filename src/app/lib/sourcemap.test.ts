@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+import type { SourceMap } from './sourcemap';
+
+const base64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Source map VLQ for one segment's fields, each relative to the previous segment's
+const vlq = (values: number[]) => values.map(value => {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+  do {
+    const digit = rest & 31;
+    rest >>>= 5;
+    encoded += base64[digit | (rest > 0 ? 32 : 0)];
+  } while (rest > 0);
+  return encoded;
+}).join('');
+
+// 'const a = x?.y;' built from line 3 of src/a.ts, indented by two: column 0 maps to 3:2 and `x` to 3:12
+const generated = 'const a = x?.y;\n';
+const original = '// a.ts\n\n  const a = x?.y;\n';
+const sourceMap = (withContent: boolean): SourceMap => ({
+  version: 3,
+  sources: ['src/a.ts'],
+  ...(withContent ? { sourcesContent: [original] } : {}),
+  names: [],
+  mappings: `${vlq([0, 0, 2, 2])},${vlq([10, 0, 0, 10])}`
+});
+
+const optionalChaining = async (withContent: boolean) => {
+  const result = await analyzeCode(generated, { sourceMap: sourceMap(withContent) });
+  return result.features.find(feature => feature.id === 'optional-chaining')!.codeSnippets[0];
+};
+
+describe('source-mapped analysis', () => {
+  it('reports the original file, line and column, with the original source as context', async () => {
+    const snippet = await optionalChaining(true);
+    assert.equal(snippet.file, 'src/a.ts');
+    assert.equal(snippet.matchLine, 3);
+    assert.equal(snippet.matchCol, 12);
+    assert.equal(snippet.text, original);
+    assert.deepEqual(snippet.generated, { line: 1, column: 10 });
+  });
+
+  it('reports the original column when the map has no sourcesContent', async () => {
+    const snippet = await optionalChaining(false);
+    assert.equal(snippet.file, 'src/a.ts');
+    assert.equal(snippet.matchLine, 3);
+    assert.equal(snippet.matchCol, 12);
+    assert.equal(snippet.textColumn, 12);
+    assert.equal(snippet.text, 'x?.y');
+  });
+});
@@ -0,0 +1,94 @@
+import { TraceMap, originalPositionFor, sourceContentFor, type SourceMapInput } from '@jridgewell/trace-mapping';
+import type { CodeSnippet } from './analyzer';
+import { createLineIndex, createSnippetExtractor, type LineIndex } from './snippets';
+
+export type SourceMap = SourceMapInput;
+
+const sourceMappingPattern = /(?:\/\/[#@]|\/\*[#@])\s*sourceMappingURL=([^\s*'"]+)\s*(?:\*\/\s*)?$/;
+
+// The sourceMappingURL comment a bundler appends as the file's last line, if any
+export function findSourceMappingURL(code: string): string | null {
+  const tail = code.slice(code.lastIndexOf('\n', code.trimEnd().length - 1) + 1);
+  return tail.match(sourceMappingPattern)?.[1] ?? null;
+}
+
+// Decodes a data: URL source map; external map URLs are left to the caller to load
+export function decodeInlineSourceMap(url: string): string | null {
+  const match = url.match(/^data:application\/json(?:;charset=[\w-]+)?(;base64)?,(.*)$/i);
+  if (!match) return null;
+  if (!match[1]) return decodeURIComponent(match[2]);
+  const bytes = Uint8Array.from(atob(match[2]), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Returns a function that moves snippets from the generated code to the original
+ * sources the map points at: the file, line and column become the original
+ * location, the context comes from the map's sourcesContent, and the generated
+ * location is kept in `generated`. Snippets without a mapping are returned as is.
+ */
+export function createSnippetMapper(sourceMap: SourceMap): (snippet: CodeSnippet) => CodeSnippet {
+  let map: TraceMap;
+  try {
+    map = new TraceMap(sourceMap);
+  } catch (error) {
+    throw new Error(`Invalid source map: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  // Each original source is indexed once, however many snippets point into it
+  const sources: Map<string, { lines: LineIndex; extract: ReturnType<typeof createSnippetExtractor> }> = new Map();
+  const indexed = (source: string, content: string) => {
+    if (!sources.has(source)) {
+      const lines = createLineIndex(content);
+      sources.set(source, { lines, extract: createSnippetExtractor(content, source, lines) });
+    }
+    return sources.get(source)!;
+  };
+
+  return snippet => {
+    const start = originalPositionFor(map, { line: snippet.matchLine, column: snippet.matchCol });
+    if (start.source === null) return snippet;
+
+    const generated = { ...(snippet.file ? { file: snippet.file } : {}), line: snippet.matchLine, column: snippet.matchCol };
+    const guarded = snippet.guarded ? { guarded: true } : {};
+    const content = sourceContentFor(map, start.source);
+    if (content == null) {
+      // Without the original source only the location can be reported; the text is
+      // the generated match, standing in for the original line from its column on
+      const located = { ...snippet };
+      delete located.textColumn;
+      return {
+        ...located,
+        file: start.source,
+        text: snippet.matchText.split('\n')[0],
+        ...(start.column > 0 ? { textColumn: start.column } : {}),
+        startLine: start.line,
+        matchLine: start.line,
+        matchCol: start.column,
+        matchLength: snippet.matchText.split('\n')[0].length,
+        ...guarded,
+        generated
+      };
+    }
+
+    // The match ends where the mapping for its last generated character points,
+    // or at the end of the original line when that lands elsewhere
+    const matchLines = snippet.matchText.split('\n');
+    const endLine = snippet.matchLine + matchLines.length - 1;
+    const endColumn = (matchLines.length > 1 ? 0 : snippet.matchCol) + matchLines[matchLines.length - 1].length;
+    const end = originalPositionFor(map, { line: endLine, column: Math.max(endColumn - 1, 0) });
+
+    const { lines, extract } = indexed(start.source, content);
+    const startOffset = lines.offset(start.line, start.column);
+    const lineEnd = startOffset - start.column + lines.line(start.line).length;
+    const endOffset = end.source === start.source && end.line === start.line && end.column >= start.column
+      ? startOffset + end.column + 1 - start.column
+      : lineEnd;
+
+    return {
+      ...extract(startOffset, Math.max(Math.min(endOffset, lineEnd), startOffset)),
+      ...guarded,
+      generated
+    };
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * How one browser supports a feature. A feature is usable in versions from
+ * `added` up to (but not including) `removed`; partial, prefixed and flagged
+ * support are recorded rather than folded into the version.
+ */
+export interface SupportStatement {
+  // First version with support, or null when no released version has it
+  added: string | null;
+  // First version that dropped support again
+  removed?: string;
+  // Only part of the feature is implemented
+  partial?: { reason?: string };
+  // Vendor prefix the feature needs, such as '-webkit-'
+  prefix?: string;
+  // Unsupported by default, but available behind a flag or setting
+  flag?: boolean;
+  // A minimum with nothing to require, as when every feature is polyfilled: any version works
+  any?: boolean;
+  notes?: string;
+}
+
+// Hand-curated tables may use the short form: '45+' for full support from 45,
+// '11*' for partial support, 'No', and 'No*' for support behind a flag
+export type SupportValue = string | SupportStatement;
+
+export function parseSupport(value: SupportValue): SupportStatement {
+  if (typeof value !== 'string') return value;
+  if (value === 'No') return { added: null };
+  if (value === 'No*') return { added: null, flag: true };
+
+  const match = value.match(/^(\d+(?:\.\d+)*)([+*])$/);
+  if (!match) throw new Error(`Invalid support value '${value}'`);
+  return match[2] === '*' ? { added: match[1], partial: {} } : { added: match[1] };
+}
+
+// Usable in current releases, even if only partially or with a prefix
+export const isSupported = (statement: SupportStatement) =>
+  statement.any === true || (statement.added !== null && statement.removed === undefined);
+
+export const isFullySupported = (statement: SupportStatement) =>
+  isSupported(statement) && !statement.partial && !statement.prefix;
+
+// Short label for tables and badges: '45+', '11+ (partial)', '9+ (-webkit-)', 'No (flag)', 'Removed in 12', 'Any'
+export function formatSupport(statement: SupportStatement): string {
+  if (statement.any) return 'Any';
+  if (statement.added === null) return statement.flag ? 'No (flag)' : 'No';
+  if (statement.removed !== undefined) return `Removed in ${statement.removed}`;
+
+  const qualifiers = [statement.partial ? 'partial' : null, statement.prefix ?? null].filter(Boolean);
+  return qualifiers.length > 0 ? `${statement.added}+ (${qualifiers.join(', ')})` : `${statement.added}+`;
+}
+
+// Longer explanation for tooltips, including the partial support reason and notes
+export function describeSupport(statement: SupportStatement): string {
+  const details = [
+    statement.partial?.reason && `Partial: ${statement.partial.reason}`,
+    statement.prefix && `Needs the ${statement.prefix} prefix`,
+    statement.flag && 'Available behind a flag',
+    statement.removed !== undefined && `Supported from ${statement.added} until ${statement.removed}`,
+    statement.any && 'Nothing the code uses needs native support',
+    statement.notes
+  ].filter(Boolean);
+  return details.length > 0 ? details.join('. ') : formatSupport(statement);
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+import { checkTarget, compareVersions, resolveTargets } from './targets';
+
+describe('compareVersions', () => {
+  it('compares part by part', () => {
+    assert.ok(compareVersions('13.10', '13.1') > 0);
+    assert.equal(compareVersions('15', '15.0'), 0);
+  });
+});
+
+describe('checkTarget', () => {
+  const fallback = { support: { chrome: { added: '80' }, firefox: { added: '72' }, ie: { added: null } } };
+
+  it('compares fallback tables against the target version', () => {
+    assert.equal(checkTarget(fallback, 'chrome 80'), 'supported');
+    assert.equal(checkTarget(fallback, 'chrome 79'), 'unsupported');
+    assert.equal(checkTarget(fallback, 'ie 11'), 'unsupported');
+  });
+
+  it('checks KaiOS against the Gecko release it ships', () => {
+    assert.equal(checkTarget(fallback, 'kaios 2.5'), 'unsupported');
+    assert.equal(checkTarget(fallback, 'kaios 3.0-3.1'), 'supported');
+  });
+
+  it('is unknown for agents no table covers', () => {
+    assert.equal(checkTarget(fallback, 'op_mini all'), 'unknown');
+  });
+
+  it('reads caniuse stats for caniuse-linked features', () => {
+    const feature = { caniuseId: 'arrow-functions', support: {} };
+    assert.equal(checkTarget(feature, 'chrome 45'), 'supported');
+    assert.equal(checkTarget(feature, 'ie 11'), 'unsupported');
+    assert.equal(checkTarget(feature, 'op_mini all'), 'unsupported');
+  });
+});
+
+describe('target evaluation', () => {
+  it('resolves browserslist queries', async () => {
+    const browsers = await resolveTargets('chrome 100, firefox 100');
+    assert.deepEqual(browsers, ['chrome 100', 'firefox 100']);
+  });
+
+  it('fails on a target missing a feature', async () => {
+    const result = await analyzeCode('[1].at(-1)', { targets: 'chrome 90, chrome 100' });
+    assert.equal(result.targets?.passed, false);
+    assert.deepEqual(result.features[0].unsupportedTargets, ['chrome 90']);
+  });
+
+  it('lists targets without support data in the verdict', async () => {
+    const result = await analyzeCode('const a = x?.y;', { targets: 'chrome 100, op_mini all, kaios 2.5' });
+    const optional = result.features.find(feature => feature.id === 'optional-chaining')!;
+    assert.deepEqual(optional.unsupportedTargets, ['kaios 2.5']);
+    assert.deepEqual(result.targets?.unknownTargets, ['op_mini all']);
+    assert.equal(result.targets?.passed, false);
+  });
+});
@@ -0,0 +1,126 @@
+import browserslist from 'browserslist';
+import unpackRegion from 'caniuse-lite/dist/unpacker/region';
+import { getCaniuseStats } from './caniuse';
+import type { SupportStatement } from './support';
+
+export interface TargetEvaluation {
+  query: string;
+  browsers: string[];
+  passed: boolean;
+  failingFeatures: number;
+  // Targets without support data for some needed feature, which the verdict can't vouch for
+  unknownTargets: string[];
+}
+
+interface TargetedFeature {
+  caniuseId?: string;
+  support: Record<string, SupportStatement>;
+}
+
+const regionPattern = /\bin\s+((?:alt-)?[a-z]{2})\b/gi;
+
+// The client-side browserslist build can't load regional usage itself, so the
+// region's table is loaded here and passed in as custom stats
+const loadRegionStats = async (region: string) => {
+  const code = region.length === 2 ? region.toUpperCase() : region.toLowerCase();
+  let packed: unknown;
+  try {
+    packed = (await import(`caniuse-lite/data/regions/${code}.js`)).default;
+  } catch {
+    throw new Error(`Unknown region name \`${code}\``);
+  }
+
+  const usage = unpackRegion(packed);
+  Object.entries(usage).forEach(([browser, versions]) => {
+    // Regional stats for some mobile browsers are keyed by '0' instead of the latest version
+    if ('0' in versions) {
+      const released = browserslist.data[browser]?.released ?? [];
+      versions[released[released.length - 1]] = versions['0'];
+      delete versions['0'];
+    }
+  });
+  return usage;
+};
+
+export async function resolveTargets(query: string): Promise<string[]> {
+  try {
+    // A single region is served as custom stats; queries mixing several regions
+    // are left to browserslist, which only resolves them under Node
+    const regions = new Set(Array.from(query.matchAll(regionPattern), match => match[1].toLowerCase()));
+    if (regions.size !== 1) {
+      return browserslist(query);
+    }
+
+    const stats = await loadRegionStats(Array.from(regions)[0]);
+    return browserslist(query.replace(regionPattern, 'in my stats'), { stats });
+  } catch (error) {
+    throw new Error(`Invalid browserslist query: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Regional usage can name a single release ('18.5') that caniuse stores as a range ('18.5-18.6')
+const findStat = (browserStats: Record<string, string> | undefined, version: string) => {
+  if (!browserStats) return undefined;
+  if (browserStats[version] !== undefined) return browserStats[version];
+  const [from] = version.split('-');
+  const range = Object.keys(browserStats).find(key => {
+    const [start, end = start] = key.split('-');
+    return /^\d/.test(from) && compareVersions(from, start) >= 0 && compareVersions(from, end) <= 0;
+  });
+  return range ? browserStats[range] : undefined;
+};
+
+// browserslist agents without a column, checked against the engine release they ship
+const targetEngines: Record<string, { browser: string; releases: [string, string][] }> = {
+  // KaiOS 2.5 is built on Gecko 48 and KaiOS 3 on Gecko 84
+  kaios: { browser: 'firefox', releases: [['2.5', '48'], ['3.0', '84']] }
+};
+
+// The engine version an agent without a column ships, as a target for the engine's column
+const engineTarget = (browser: string, version: string) => {
+  const engine = targetEngines[browser];
+  const release = engine?.releases.findLast(([from]) => compareVersions(version.split('-')[0], from) >= 0);
+  return release ? `${engine.browser} ${release[1]}` : undefined;
+};
+
+/**
+ * Checks one browserslist entry (e.g. 'safari 15.2-15.3') against a feature.
+ * caniuse-linked features are looked up exactly; fallback tables, and releases
+ * caniuse has no entry for (such as 'node 18.0.0'), are compared against the
+ * versions in the feature's support statement. caniuse's 'u' (support unknown)
+ * and agents no table covers, such as Opera Mini, are 'unknown'.
+ */
+export function checkTarget(feature: TargetedFeature, target: string): 'supported' | 'unsupported' | 'unknown' {
+  const [browser, version] = target.split(' ');
+
+  if (feature.caniuseId) {
+    const stat = findStat(getCaniuseStats(feature.caniuseId)?.[browser], version);
+    if (stat !== undefined) {
+      const flags = stat.split(' ');
+      if (flags.includes('y') || flags.includes('a')) return 'supported';
+      return flags.includes('u') ? 'unknown' : 'unsupported';
+    }
+  }
+
+  const fallback = feature.support[browser];
+  if (fallback === undefined) {
+    const engine = engineTarget(browser, version);
+    return engine ? checkTarget({ support: feature.support }, engine) : 'unknown';
+  }
+
+  if (fallback.added === null) return 'unsupported';
+  const targetVersion = version.split('-')[0];
+  if (!/^\d/.test(targetVersion)) return 'unknown';
+  if (fallback.removed !== undefined && compareVersions(targetVersion, fallback.removed) >= 0) return 'unsupported';
+  return compareVersions(targetVersion, fallback.added) >= 0 ? 'supported' : 'unsupported';
+}
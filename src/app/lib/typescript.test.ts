@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode } from './analyzer';
+import { compiledSyntax, libApis, parseTsconfig } from './typescript';
+
+describe('parseTsconfig', () => {
+  it('reads the options that decide what reaches the browser', () => {
+    const { compilerOptions } = parseTsconfig(`{
+      // Comments and trailing commas are allowed
+      "compilerOptions": { "target": "ES2017", "lib": ["ES2022", "DOM"], "noEmit": true, },
+    }`);
+    assert.deepEqual(compilerOptions, { target: 'es2017', lib: ['es2022', 'dom'], noEmit: true });
+  });
+});
+
+describe('compiledSyntax', () => {
+  it('lists syntax newer than the target', () => {
+    const compiled = compiledSyntax({ target: 'ES2019' });
+    assert.ok(compiled.includes('optional-chaining'));
+    assert.ok(!compiled.includes('async-await'));
+  });
+
+  it('is empty when tsc doesn\'t emit JavaScript', () => {
+    assert.deepEqual(compiledSyntax({ target: 'ES2017', noEmit: true }), []);
+    assert.deepEqual(compiledSyntax({ target: 'ES2017', emitDeclarationOnly: true }), []);
+  });
+});
+
+describe('libApis', () => {
+  it('includes every earlier edition\'s APIs', () => {
+    const ids = libApis({ lib: ['es2022'] }).map(api => api.id);
+    assert.ok(ids.includes('array-at'));
+    assert.ok(ids.includes('object-fromentries'));
+    assert.ok(!ids.includes('array-findlast'));
+  });
+});
+
+describe('TypeScript-aware analysis', () => {
+  const code = 'const a = x?.y ?? 1;\n[1].at(-1);\n';
+
+  it('doesn\'t count syntax tsc compiles for its target', async () => {
+    const result = await analyzeCode(code, { filePath: 'a.ts', typescript: { target: 'ES2017' } });
+    const optional = result.features.find(feature => feature.id === 'optional-chaining');
+    assert.equal(optional?.compiledBy, 'TypeScript');
+    assert.equal(result.features.find(feature => feature.id === 'array-at')?.compiledBy, undefined);
+  });
+
+  it('counts all syntax when another tool compiles the code', async () => {
+    const result = await analyzeCode(code, { filePath: 'a.ts', typescript: { target: 'ES2017', noEmit: true } });
+    assert.ok(result.features.every(feature => !feature.compiledBy));
+    assert.equal(result.minimumVersionReasons.chrome.drivers[0].id, 'array-at');
+  });
+});
@@ -0,0 +1,193 @@
+// The tsconfig.json compiler options that decide what reaches the browser
+export interface TypeScriptOptions {
+  // ECMAScript version tsc compiles to, such as 'ES2019'; tsc defaults to ES5
+  target?: string;
+  // Type declarations for built-in APIs, such as ['ES2022', 'DOM']; defaults to the target's
+  lib?: string[];
+  // JavaScript files are compiled too
+  allowJs?: boolean;
+  // tsc only type-checks, or only writes declarations, and another tool such as a bundler compiles the code
+  noEmit?: boolean;
+  emitDeclarationOnly?: boolean;
+}
+
+// A tsconfig.json, with `extends` still to be resolved by whoever can read the files it names
+export interface Tsconfig {
+  extends?: string | string[];
+  compilerOptions: TypeScriptOptions;
+}
+
+// Targets in release order; 'es6' is an alias for 'es2015'
+const editions = [
+  'es3', 'es5', 'es2015', 'es2016', 'es2017', 'es2018', 'es2019', 'es2020', 'es2021', 'es2022', 'es2023', 'es2024', 'esnext'
+];
+
+// The edition that introduced each syntax feature; tsc rewrites it for older targets.
+// Decorators and `using` aren't in a finished edition yet, so only ESNext keeps them.
+const syntaxEditions: Record<string, string> = {
+  'arrow-function': 'es2015',
+  'const-declaration': 'es2015',
+  'let-declaration': 'es2015',
+  'template-literal': 'es2015',
+  'destructuring': 'es2015',
+  // Object spread is ES2018, but array spread is reported as the same feature
+  'spread-operator': 'es2015',
+  'class-declaration': 'es2015',
+  'for-of': 'es2015',
+  'default-parameters': 'es2015',
+  'rest-parameters': 'es2015',
+  'computed-property': 'es2015',
+  'shorthand-property': 'es2015',
+  'method-definition': 'es2015',
+  'generator-function': 'es2015',
+  'async-await': 'es2017',
+  'async-iteration': 'es2018',
+  'optional-chaining': 'es2020',
+  'nullish-coalescing': 'es2020',
+  'logical-assignment': 'es2021',
+  'numeric-separators': 'es2021',
+  'private-fields': 'es2022',
+  'class-fields': 'es2022',
+  'static-class-fields': 'es2022',
+  'private-methods': 'es2022',
+  'decorators': 'esnext',
+  'explicit-resource-management': 'esnext'
+};
+
+// Built-in APIs declared by each lib file. A lib such as 'es2022' includes all of
+// its 'es2022.*' files and every earlier edition's.
+const libFeatures: Record<string, string[]> = {
+  'es2015.core': ['array-from', 'array-find', 'array-findindex', 'object-assign', 'string-includes', 'string-startswith', 'string-endswith', 'string-repeat'],
+  'es2015.collection': ['map-object', 'set-object', 'weakmap', 'weakset'],
+  'es2015.promise': ['promise'],
+  'es2015.proxy': ['proxy'],
+  'es2015.reflect': ['reflect'],
+  'es2015.symbol': ['symbol'],
+  'es2016.array.include': ['array-includes'],
+  'es2017.object': ['object-values', 'object-entries'],
+  'es2017.string': ['string-padstart', 'string-padend'],
+  'es2017.sharedmemory': ['sharedarraybuffer', 'atomics'],
+  'es2019.array': ['array-flat', 'array-flatmap'],
+  'es2019.object': ['object-fromentries'],
+  'es2019.string': ['string-trimstart', 'string-trimend'],
+  'es2020.bigint': ['bigint64array', 'biguint64array'],
+  'es2020.intl': ['intl-relativetimeformat'],
+  'es2020.promise': ['promise-allsettled'],
+  'es2020.string': ['string-matchall'],
+  'es2021.intl': ['intl-listformat'],
+  'es2021.promise': ['promise-any', 'aggregate-error'],
+  'es2021.string': ['string-replaceall'],
+  'es2021.weakref': ['weakref', 'finalizationregistry'],
+  'es2022.array': ['array-at', 'typedarray-at'],
+  'es2022.error': ['error-cause'],
+  'es2022.object': ['object-hasown'],
+  'es2022.string': ['string-at'],
+  'es2023.array': ['array-findlast', 'array-findlastindex', 'array-toreversed', 'array-tosorted', 'array-tospliced', 'array-with', 'typedarray-with'],
+  'es2024.arraybuffer': ['resizable-arraybuffer'],
+  'es2024.object': ['object-groupby'],
+  'es2024.promise': ['promise-withresolvers'],
+  'es2024.string': ['string-iswellformed', 'string-towellformed'],
+  'esnext.array': ['array-fromasync'],
+  'esnext.collection': ['set-methods'],
+  'esnext.float16': ['float16array'],
+  'esnext.iterator': ['iterator-from', 'iterator-helpers']
+};
+
+const typeScriptPattern = /\.(m|c)?tsx?$/i;
+
+export const isTypeScriptFile = (filePath: string) => typeScriptPattern.test(filePath);
+
+const editionOf = (name: string) => (name.toLowerCase() === 'es6' ? 'es2015' : name.toLowerCase());
+
+export function normalizeTarget(target = 'es5'): string {
+  const edition = editionOf(target);
+  if (!editions.includes(edition)) {
+    throw new Error(`Unknown TypeScript target '${target}', expected one of: ${editions.join(', ')}`);
+  }
+  return edition;
+}
+
+// Whether tsc compiles the file: TypeScript sources, and JavaScript with allowJs.
+// Code without a path, such as pasted code, is taken to be compiled.
+export const compilesFile = (options: TypeScriptOptions, filePath?: string) =>
+  !filePath || isTypeScriptFile(filePath) || Boolean(options.allowJs);
+
+// Whether tsc writes the JavaScript that runs, rather than leaving that to another tool
+export const emitsJavaScript = (options: TypeScriptOptions) => !options.noEmit && !options.emitDeclarationOnly;
+
+// Syntax features tsc rewrites for the configured target, so they never reach the browser
+export function compiledSyntax(options: TypeScriptOptions): string[] {
+  if (!emitsJavaScript(options)) return [];
+  const target = editions.indexOf(normalizeTarget(options.target));
+  return Object.keys(syntaxEditions).filter(id => editions.indexOf(syntaxEditions[id]) > target);
+}
+
+/**
+ * The built-in APIs the lib setting declares, with the lib entry that declares
+ * each. Without a lib setting, tsc declares the target's edition. Only APIs
+ * the analyzer detects are listed; DOM and other non-edition libs are ignored.
+ */
+export function libApis(options: TypeScriptOptions): { lib: string; id: string }[] {
+  const libs = options.lib ?? [normalizeTarget(options.target)];
+  const apis: Map<string, string> = new Map();
+
+  libs.forEach(lib => {
+    const name = editionOf(lib);
+    // A sub-lib like 'es2022.array', or a whole edition with everything before it
+    const files = Object.hasOwn(libFeatures, name)
+      ? [name]
+      : editions.includes(name)
+        ? Object.keys(libFeatures).filter(file => editions.indexOf(file.split('.')[0]) <= editions.indexOf(name))
+        : [];
+    files.forEach(file => libFeatures[file].forEach(id => {
+      if (!apis.has(id)) apis.set(id, lib);
+    }));
+  });
+
+  return Array.from(apis, ([id, lib]) => ({ lib, id }));
+}
+
+// tsconfig.json (like .babelrc and .swcrc) allows comments and trailing commas, which JSON.parse doesn't
+const stripJsonc = (text: string) => {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      result += text.slice(start, i + 1);
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+  return result.replace(/,(\s*[}\]])/g, '$1');
+};
+
+export const parseJsonc = (text: string) => JSON.parse(stripJsonc(text));
+
+// Reads the options that matter here from a tsconfig.json's text
+export function parseTsconfig(text: string): Tsconfig {
+  let config;
+  try {
+    config = parseJsonc(text);
+  } catch (error) {
+    throw new Error(`Invalid tsconfig: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const options = config?.compilerOptions ?? {};
+  const compilerOptions: TypeScriptOptions = {};
+  if (typeof options.target === 'string') compilerOptions.target = normalizeTarget(options.target);
+  if (Array.isArray(options.lib)) compilerOptions.lib = options.lib.map(lib => String(lib).toLowerCase());
+  if (typeof options.allowJs === 'boolean') compilerOptions.allowJs = options.allowJs;
+  if (typeof options.noEmit === 'boolean') compilerOptions.noEmit = options.noEmit;
+  if (typeof options.emitDeclarationOnly === 'boolean') compilerOptions.emitDeclarationOnly = options.emitDeclarationOnly;
+  return { ...(config?.extends !== undefined ? { extends: config.extends } : {}), compilerOptions };
+}
@@ -0,0 +1,36 @@
+import type { AnalysisProgress, AnalysisResult } from './analyzer';
+import { CodeSyntaxError, type ParseError } from './diagnostics';
+import { analyzeSource, type AnalyzeSourceOptions } from './source';
+
+// Web Worker running analyzeSource off the page's main thread; see background.ts
+
+export interface WorkerRequest {
+  code: string;
+  // Without onProgress, which can't be sent to a worker; progress is posted back instead
+  options: Omit<AnalyzeSourceOptions, 'onProgress'>;
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; analysis: AnalysisResult }
+  // parseErrors are set when the code couldn't be parsed
+  | { type: 'error'; message: string; parseErrors?: ParseError[] };
+
+const respond = (response: WorkerResponse) => postMessage(response);
+
+addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const { code, options } = event.data;
+  try {
+    const analysis = await analyzeSource(code, {
+      ...options,
+      onProgress: progress => respond({ type: 'progress', progress })
+    });
+    respond({ type: 'result', analysis });
+  } catch (error) {
+    respond({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'An error occurred while analyzing the code',
+      ...(error instanceof CodeSyntaxError ? { parseErrors: error.parseErrors } : {})
+    });
+  }
+});
@@ -1,37 +1,95 @@
 'use client';
 
-import { useState } from 'react';
-import { analyzeCode, type AnalysisResult } from './lib/analyzer';
+import { useRef, useState } from 'react';
+import { type AnalysisProgress, type AnalysisResult } from './lib/analyzer';
+import { analyzeInBackground } from './lib/background';
+import { defaultBrowsers, defaultRuntimes, type Runtime } from './lib/browsers';
+import { CodeSyntaxError, type ParseError } from './lib/diagnostics';
+import { type AnalyzeSourceOptions } from './lib/source';
 import CodeInput from './components/CodeInput';
 import BrowserSupportResult from './components/BrowserSupportResult';
+import DownlevelPreview from './components/DownlevelPreview';
 
 export default function Home() {
   const [code, setCode] = useState('');
+  const [targets, setTargets] = useState('');
+  const [polyfills, setPolyfills] = useState('');
+  const [browsers, setBrowsers] = useState(defaultBrowsers);
+  const [runtime, setRuntime] = useState<Runtime>('browser');
+  const [language, setLanguage] = useState<NonNullable<AnalyzeSourceOptions['language']>>('auto');
+  const [sourceMap, setSourceMap] = useState<{ name: string; content: string } | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(60);
   const [error, setError] = useState<string | null>(null);
+  const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
+  const analysisController = useRef<AbortController | null>(null);
 
   const handleAnalyze = async () => {
     if (!code.trim()) {
-      setError('Please enter some JavaScript code to analyze');
+      setError('Please enter some JavaScript, CSS or HTML code to analyze');
       return;
     }
 
+    const controller = new AbortController();
+    analysisController.current = controller;
     setLoading(true);
+    setProgress(null);
+    setAnalysis(null);
     setError(null);
+    setParseErrors([]);
     
     try {
-      const result = await analyzeCode(code);
+      const result = await analyzeInBackground(code, {
+        targets,
+        language,
+        sourceMap: sourceMap?.content,
+        polyfills: polyfills.split(',').map(entry => entry.trim()).filter(Boolean),
+        browsers,
+        runtime
+      }, {
+        // Features are shown as they're found, before the analysis finishes
+        onProgress: update => {
+          setProgress(update);
+          if (update.partial) setAnalysis(update.partial);
+        },
+        timeout: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+        signal: controller.signal
+      });
       setAnalysis(result);
+      setParseErrors(result.parseErrors ?? []);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while analyzing the code');
+      // Features found before a cancel or timeout are an incomplete picture, so they're dropped
+      setAnalysis(null);
+      if (err instanceof CodeSyntaxError) setParseErrors(err.parseErrors);
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'An error occurred while analyzing the code');
+      }
     } finally {
+      analysisController.current = null;
       setLoading(false);
+      setProgress(null);
     }
   };
 
+  const handleCancel = () => analysisController.current?.abort();
+
+  // Switching between browser and server code starts from that mode's columns
+  const handleRuntimeChange = (next: Runtime) => {
+    setRuntime(next);
+    setBrowsers(next === 'server' ? defaultRuntimes : defaultBrowsers);
+  };
+
+  // Parse errors are marked at offsets into the analyzed code, which editing moves
+  const handleCodeChange = (next: string) => {
+    setCode(next);
+    setParseErrors([]);
+  };
+
   const handleClear = () => {
-    setCode('');
+    handleCodeChange('');
+    setSourceMap(null);
     setAnalysis(null);
     setError(null);
   };
@@ -69,7 +127,7 @@ export default function Home() {
             JavaScript Browser Support Analyzer
           </h1>
           <p className="text-lg text-gray-300 max-w-2xl mx-auto">
-            Paste your JavaScript code below to check browser compatibility and support information.
+            Paste your JavaScript, CSS or HTML code below to check browser compatibility and support information.
             Get detailed insights about which browsers support the features you&apos;re using.
           </p>
         </div>
@@ -78,8 +136,24 @@ export default function Home() {
           <div className="space-y-4">
             <CodeInput
               code={code}
-              onChange={setCode}
+              onChange={handleCodeChange}
+              parseErrors={parseErrors}
+              targets={targets}
+              onTargetsChange={setTargets}
+              polyfills={polyfills}
+              onPolyfillsChange={setPolyfills}
+              browsers={browsers}
+              onBrowsersChange={setBrowsers}
+              runtime={runtime}
+              onRuntimeChange={handleRuntimeChange}
+              language={language}
+              onLanguageChange={setLanguage}
+              sourceMapName={sourceMap?.name ?? null}
+              onSourceMapChange={setSourceMap}
+              timeoutSeconds={timeoutSeconds}
+              onTimeoutSecondsChange={setTimeoutSeconds}
               onAnalyze={handleAnalyze}
+              onCancel={handleCancel}
               onClear={handleClear}
               loading={loading}
             />
@@ -106,9 +180,17 @@ export default function Home() {
           </div>
 
           <div>
-            <BrowserSupportResult analysis={analysis} loading={loading} />
+            <BrowserSupportResult analysis={analysis} loading={loading} progress={progress} />
           </div>
         </div>
+
+        {/* Code with syntax errors can't be compiled */}
+        {analysis?.language === 'javascript' && !analysis.parseErrors && !loading && (
+          <div className="mt-8">
+            {/* Keyed on the inputs so a stale preview is dropped when they change */}
+            <DownlevelPreview key={`${targets}\n${code}`} code={code} targets={targets} />
+          </div>
+        )}
       </div>
     </div>
   );
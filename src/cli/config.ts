@@ -0,0 +1,53 @@
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { registerDetector } from '../app/lib/analyzer';
+import type { Detector } from '../app/lib/detectors';
+
+export interface Config {
+  // Custom detectors, registered alongside the built-in ones
+  detectors?: Detector[];
+}
+
+// Looked for in the working directory when no --config is given
+const configFiles = ['browser-support.config.js', 'browser-support.config.mjs', 'browser-support.config.cjs', 'browser-support.config.json'];
+
+const isFile = async (file: string) => (await stat(file).catch(() => null))?.isFile() ?? false;
+
+export async function findConfig(cwd: string = process.cwd()): Promise<string | undefined> {
+  for (const name of configFiles) {
+    const file = path.join(cwd, name);
+    if (await isFile(file)) return file;
+  }
+  return undefined;
+}
+
+/**
+ * Loads a config file and registers its detectors. JSON configs can only
+ * define detectors that use `match`; JavaScript configs export the config as
+ * their default export and can give detectors a visitor.
+ */
+export async function loadConfig(file: string): Promise<Config> {
+  let config;
+  try {
+    config = file.endsWith('.json')
+      ? JSON.parse(await readFile(file, 'utf8'))
+      : (await import(pathToFileURL(file).href)).default;
+  } catch (error) {
+    throw new Error(`Failed to load config ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!config || typeof config !== 'object') {
+    throw new Error(`Invalid config ${file}: expected an object`);
+  }
+  if (config.detectors !== undefined && !Array.isArray(config.detectors)) {
+    throw new Error(`Invalid config ${file}: detectors must be a list`);
+  }
+
+  try {
+    (config.detectors ?? []).forEach(detector => registerDetector(detector));
+  } catch (error) {
+    throw new Error(`Invalid config ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return config;
+}
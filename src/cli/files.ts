@@ -0,0 +1,162 @@
+import { readFile, stat } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { glob } from 'tinyglobby';
+import { buildOptionsFromBabel, buildOptionsFromSwc, type BuildOptions } from '../app/lib/build';
+import type { ProjectHost } from '../app/lib/project';
+import { findSourceMappingURL } from '../app/lib/sourcemap';
+import { parseJsonc, parseTsconfig, type TypeScriptOptions } from '../app/lib/typescript';
+
+export const sourceExtensions = ['js', 'mjs', 'cjs', 'jsx', 'ts', 'mts', 'cts', 'tsx', 'css', 'html', 'htm'];
+
+const ignore = ['**/node_modules/**', '**/.next/**', '**/out/**', '**/*.d.ts'];
+
+/**
+ * Expands the CLI's positional arguments into a sorted list of absolute file
+ * paths. Each argument may be a file, a directory (searched recursively for
+ * source files) or a glob pattern.
+ */
+export async function collectFiles(patterns: string[], cwd: string = process.cwd()): Promise<string[]> {
+  const files: Set<string> = new Set();
+
+  for (const pattern of patterns) {
+    const absolute = path.resolve(cwd, pattern);
+    const stats = await stat(absolute).catch(() => null);
+
+    let matches: string[];
+    if (stats?.isFile()) {
+      matches = [absolute];
+    } else if (stats?.isDirectory()) {
+      matches = await glob(`**/*.{${sourceExtensions.join(',')}}`, { cwd: absolute, absolute: true, ignore });
+    } else {
+      matches = await glob(pattern, { cwd, absolute: true, ignore });
+    }
+
+    if (matches.length === 0) {
+      throw new Error(`No files matched '${pattern}'`);
+    }
+    matches.forEach(match => files.add(path.normalize(match)));
+  }
+
+  return Array.from(files).sort();
+}
+
+const isFile = async (file: string) => (await stat(file).catch(() => null))?.isFile() ?? false;
+
+/**
+ * Project host backed by the file system. Paths are kept relative to `cwd` so
+ * they read naturally in reports. Specifiers resolve like a bundler would:
+ * exact file, added extension, directory index, and TypeScript sources
+ * imported with a `.js` extension.
+ */
+export function createNodeProjectHost(cwd: string = process.cwd()): ProjectHost {
+  const extensions = sourceExtensions.map(extension => `.${extension}`);
+
+  return {
+    readFile: file => readFile(path.resolve(cwd, file), 'utf8'),
+
+    async resolveImport(specifier, importer) {
+      const base = specifier.startsWith('/')
+        ? path.resolve(cwd, `.${specifier}`)
+        : path.resolve(cwd, path.dirname(importer), specifier);
+
+      const candidates = [
+        base,
+        ...extensions.map(extension => base + extension),
+        ...extensions.map(extension => path.join(base, `index${extension}`))
+      ];
+      if (/\.(m|c)?js$/.test(base)) {
+        candidates.push(base.replace(/js$/, 'ts'), base.replace(/js$/, 'tsx'));
+      }
+
+      for (const candidate of candidates) {
+        if (await isFile(candidate)) {
+          return path.relative(cwd, candidate);
+        }
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * Loads the external source map for a built file: the file named by its
+ * sourceMappingURL comment, or `<file>.map` next to it. Inline data: URL maps
+ * are decoded by the analyzer itself, so undefined is returned for those.
+ */
+export async function loadSourceMap(file: string, code: string): Promise<string | undefined> {
+  const url = findSourceMappingURL(code);
+  if (url?.startsWith('data:')) return undefined;
+
+  const candidate = url && !/^[a-z][a-z\d+.-]*:/i.test(url)
+    ? path.resolve(path.dirname(file), decodeURIComponent(url.split(/[?#]/)[0]))
+    : `${file}.map`;
+  return (await isFile(candidate)) ? readFile(candidate, 'utf8') : undefined;
+}
+
+// The tsconfig.json in the working directory, used when --tsconfig isn't given
+export async function findTsconfig(cwd: string = process.cwd()): Promise<string | undefined> {
+  const file = path.join(cwd, 'tsconfig.json');
+  return (await isFile(file)) ? file : undefined;
+}
+
+/**
+ * Loads the compiler options of a tsconfig.json, following `extends` to
+ * relative files and packages such as '@tsconfig/node20/tsconfig.json'.
+ * Options set in a file override those it extends.
+ */
+export async function loadTsconfig(file: string, seen: Set<string> = new Set()): Promise<TypeScriptOptions> {
+  if (seen.has(file)) throw new Error(`Circular tsconfig extends: ${file}`);
+  seen.add(file);
+
+  let config;
+  try {
+    config = parseTsconfig(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to load ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const bases = config.extends === undefined ? [] : [config.extends].flat();
+  let options: TypeScriptOptions = {};
+  for (const base of bases) {
+    const resolved = base.startsWith('.') || path.isAbsolute(base)
+      ? path.resolve(path.dirname(file), base.endsWith('.json') ? base : `${base}.json`)
+      : createRequire(file).resolve(base);
+    options = { ...options, ...(await loadTsconfig(resolved, seen)) };
+  }
+  return { ...options, ...config.compilerOptions };
+}
+
+// Enough of Babel's config API for configs that export a function
+const babelConfigApi = {
+  cache: Object.assign(() => {}, { forever() {}, never() {}, using() {}, invalidate() {} }),
+  env: (name?: string) => {
+    const env = process.env.BABEL_ENV ?? process.env.NODE_ENV ?? 'development';
+    return name === undefined ? env : env === name;
+  },
+  caller: () => undefined,
+  assertVersion() {},
+  version: '7.0.0'
+};
+
+/**
+ * Loads the build options from a Babel config (.babelrc, babel.config.json or
+ * a JavaScript config) or an .swcrc. JavaScript configs may export the config
+ * or a function returning it.
+ */
+export async function loadBuildConfig(file: string): Promise<BuildOptions> {
+  const swc = path.basename(file).includes('swcrc');
+  let config;
+  try {
+    if (/\.[cm]?js$/.test(file)) {
+      const exported = (await import(pathToFileURL(file).href)).default;
+      config = typeof exported === 'function' ? exported(babelConfigApi) : exported;
+    } else {
+      config = parseJsonc(await readFile(file, 'utf8'));
+    }
+    return swc ? buildOptionsFromSwc(config) : buildOptionsFromBabel(config);
+  } catch (error) {
+    throw new Error(`Failed to load ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
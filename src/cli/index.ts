@@ -0,0 +1,237 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import browserslist from 'browserslist';
+import path from 'node:path';
+import { selectBrowsers } from '../app/lib/browsers';
+import type { BuildOptions } from '../app/lib/build';
+import { analyzeProject } from '../app/lib/project';
+import { CodeSyntaxError } from '../app/lib/diagnostics';
+import { analyzeSource, detectLanguage } from '../app/lib/source';
+import { resolveTargets } from '../app/lib/targets';
+import { findConfig, loadConfig } from './config';
+import { collectFiles, createNodeProjectHost, findTsconfig, loadBuildConfig, loadSourceMap, loadTsconfig } from './files';
+import {
+  formatJson,
+  formatProjectJson,
+  formatProjectTable,
+  formatTable,
+  formatTsconfigNote,
+  hasParseErrors,
+  hasTargetFailures,
+  type FileReport
+} from './report';
+
+const usage = `Usage: browser-support [options] <file|directory|glob...>
+
+Analyzes JavaScript, TypeScript, CSS and HTML sources for browser compatibility.
+
+Options:
+  -t, --targets <query>   browserslist query to check against (defaults to the
+                          project's browserslist config, if any)
+  -P, --polyfills <list>  comma-separated features provided by polyfills, as
+                          feature ids (array-flat) or modules (core-js/stable)
+  -b, --browsers <list>   comma-separated browsers to report, from chrome,
+                          firefox, safari, edge, ie, opera, samsung, ios_saf,
+                          and_chr, and_ff, android, node, deno and bun
+                          (defaults to chrome, firefox, safari, edge, ie, or
+                          node with --runtime server)
+  -r, --runtime <runtime> browser (default) or server, which reports Node.js,
+                          Deno or Bun versions and flags browser-only APIs
+  -c, --config <file>     config file with custom detectors (defaults to
+                          browser-support.config.{js,mjs,cjs,json}, if any)
+      --tsconfig <file>   tsconfig.json whose target decides which syntax is
+                          compiled away (defaults to ./tsconfig.json, if any;
+                          nothing is with noEmit or emitDeclarationOnly)
+  -B, --build <file>      Babel (@babel/preset-env) or SWC config the code is
+                          compiled with; what it compiles or polyfills for its
+                          targets doesn't count towards the minimum versions
+      --build-targets <query>
+                          the build's targets, instead of the config's (or the
+                          project's browserslist config)
+      --use-builtins <mode>
+                          the build's core-js mode: usage, entry or false;
+                          either option without --build assumes preset-env
+      --max-occurrences <n>
+                          occurrences of each feature to report a location
+                          for; further ones are only counted (default 100)
+  -f, --format <format>   output format: table (default) or json
+  -p, --project           treat the arguments as entry files and analyze every
+                          module reachable through relative imports
+  -h, --help              show this message
+
+Built files with a source map (inline, named by sourceMappingURL, or <file>.map)
+are reported at their original source locations.
+
+Exit codes: 0 on success, 1 when a target browser lacks a detected feature,
+2 on usage errors or files that could not be analyzed. Files with syntax errors
+are analyzed as far as they parse, and also exit with 2.`;
+
+export async function main(argv: string[], cwd: string = process.cwd()): Promise<number> {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        targets: { type: 'string', short: 't' },
+        polyfills: { type: 'string', short: 'P' },
+        browsers: { type: 'string', short: 'b' },
+        runtime: { type: 'string', short: 'r', default: 'browser' },
+        config: { type: 'string', short: 'c' },
+        tsconfig: { type: 'string' },
+        build: { type: 'string', short: 'B' },
+        'build-targets': { type: 'string' },
+        'use-builtins': { type: 'string' },
+        'max-occurrences': { type: 'string' },
+        format: { type: 'string', short: 'f', default: 'table' },
+        project: { type: 'boolean', short: 'p' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${usage}`);
+    return 2;
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(usage);
+    return 0;
+  }
+  if (positionals.length === 0) {
+    console.error(usage);
+    return 2;
+  }
+  if (values.format !== 'table' && values.format !== 'json') {
+    console.error(`Unknown format '${values.format}', expected 'table' or 'json'`);
+    return 2;
+  }
+  if (values.runtime !== 'browser' && values.runtime !== 'server') {
+    console.error(`Unknown runtime '${values.runtime}', expected 'browser' or 'server'`);
+    return 2;
+  }
+  const runtime = values.runtime;
+  const maxOccurrences = values['max-occurrences'] !== undefined ? Number(values['max-occurrences']) : undefined;
+  if (maxOccurrences !== undefined && (!Number.isInteger(maxOccurrences) || maxOccurrences < 1)) {
+    console.error(`Invalid --max-occurrences '${values['max-occurrences']}', expected a whole number of at least 1`);
+    return 2;
+  }
+
+  try {
+    const config = values.config ? path.resolve(cwd, values.config) : await findConfig(cwd);
+    if (config) await loadConfig(config);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  let typescript;
+  let tsconfigNote: string | undefined;
+  try {
+    const tsconfig = values.tsconfig ? path.resolve(cwd, values.tsconfig) : await findTsconfig(cwd);
+    if (tsconfig) typescript = await loadTsconfig(tsconfig);
+    // A tsconfig picked up without --tsconfig changes the results, so it's named in the report
+    if (tsconfig && !values.tsconfig) tsconfigNote = formatTsconfigNote(path.relative(cwd, tsconfig), typescript);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  const projectTargets = browserslist.loadConfig({ path: cwd })?.join(', ');
+  const targets = values.targets ?? projectTargets;
+
+  let build: BuildOptions | undefined;
+  try {
+    if (values.build) {
+      build = await loadBuildConfig(path.resolve(cwd, values.build));
+    } else if (values['build-targets'] || values['use-builtins']) {
+      build = { tool: 'babel' };
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+  if (build) {
+    // Like preset-env, a build without targets of its own uses the project's browserslist config
+    build.targets = values['build-targets'] ?? build.targets ?? projectTargets;
+    const useBuiltIns = values['use-builtins'];
+    if (useBuiltIns !== undefined) {
+      if (!['usage', 'entry', 'false'].includes(useBuiltIns)) {
+        console.error(`Unknown useBuiltIns mode '${useBuiltIns}', expected 'usage', 'entry' or 'false'`);
+        return 2;
+      }
+      build.useBuiltIns = useBuiltIns === 'false' ? false : useBuiltIns as 'usage' | 'entry';
+    }
+  }
+
+  // A bad query would otherwise fail every file as if it couldn't be parsed
+  const queries = [
+    { query: targets, source: values.targets !== undefined ? '--targets' : 'browserslist config' },
+    { query: build?.targets, source: values['build-targets'] !== undefined ? '--build-targets' : 'build targets' }
+  ];
+  for (const { query, source } of queries) {
+    if (!query?.trim()) continue;
+    try {
+      await resolveTargets(query);
+    } catch (error) {
+      console.error(`${source}: ${error instanceof Error ? error.message : error}`);
+      return 2;
+    }
+  }
+
+  const polyfills = values.polyfills?.split(',').map(entry => entry.trim()).filter(Boolean);
+
+  let browsers: string[];
+  try {
+    browsers = selectBrowsers(values.browsers?.split(',').map(entry => entry.trim()).filter(Boolean), runtime);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  let files: string[];
+  try {
+    files = await collectFiles(positionals, cwd);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  if (values.project) {
+    let project;
+    try {
+      const entries = files.map(file => path.relative(cwd, file));
+      project = await analyzeProject(entries, createNodeProjectHost(cwd), { targets, polyfills, browsers, runtime, typescript, build, maxOccurrences });
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      return 2;
+    }
+
+    console.log(values.format === 'json' ? formatProjectJson(project, tsconfigNote) : formatProjectTable(project, tsconfigNote));
+
+    if (project.files?.some(file => file.error) || hasParseErrors(project.files ?? [])) return 2;
+    return project.targets && !project.targets.passed ? 1 : 0;
+  }
+
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    try {
+      const code = await readFile(file, 'utf8');
+      const language = detectLanguage(code, file);
+      const sourceMap = language === 'javascript' ? await loadSourceMap(file, code) : undefined;
+      const options = { targets, language, sourceMap, polyfills, browsers, runtime, typescript, build, maxOccurrences, fileName: file };
+      reports.push({ path: file, analysis: await analyzeSource(code, options) });
+    } catch (error) {
+      reports.push({
+        path: file,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof CodeSyntaxError ? { parseErrors: error.parseErrors } : {})
+      });
+    }
+  }
+
+  console.log(values.format === 'json' ? formatJson(reports, cwd, tsconfigNote) : formatTable(reports, cwd, tsconfigNote));
+
+  if (reports.some(report => report.error) || hasParseErrors(reports)) return 2;
+  return hasTargetFailures(reports) ? 1 : 0;
+}
@@ -0,0 +1,219 @@
+import path from 'node:path';
+import type { AnalysisResult, CodeSnippet, DetectedFeature, FileAnalysis } from '../app/lib/analyzer';
+import { browserDefinitions } from '../app/lib/browsers';
+import type { ParseError } from '../app/lib/diagnostics';
+import type { Remediation } from '../app/lib/remediation';
+import { formatSupport } from '../app/lib/support';
+import { emitsJavaScript, normalizeTarget, type TypeScriptOptions } from '../app/lib/typescript';
+
+export type FileReport = FileAnalysis;
+
+const browserName = (browser: string) => browserDefinitions[browser]?.shortName ?? browserDefinitions[browser]?.name ?? browser;
+
+const maxLocations = 3;
+
+const renderRows = (rows: string[][], indent: string) => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => indent + row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+};
+
+// The first few lines, and a '+N' for the rest. Occurrences past the occurrence
+// limit have no location, so they're only counted in the '+N'.
+const formatLines = (lines: string[], omitted = 0) => {
+  const unique = Array.from(new Set(lines));
+  const shown = unique.slice(0, maxLocations).join(', ');
+  const more = Math.max(unique.length - maxLocations, 0) + omitted;
+  return more > 0 ? `${shown} +${more}` : shown;
+};
+
+// Snippets from project analysis carry their file, so locations become 'file:line'
+const formatLocations = (snippets: CodeSnippet[], omitted?: number) => formatLines(snippets.map(snippet =>
+  snippet.file ? `${snippet.file}:${snippet.matchLine}` : `${snippet.matchLine}`
+), omitted);
+
+const featureLabel = (feature: DetectedFeature) => {
+  if (feature.polyfilledBy) return `${feature.feature} (polyfilled)`;
+  if (feature.compiledBy) return `${feature.feature} (compiled by ${feature.compiledBy})`;
+  if (feature.guarded) return `${feature.feature} (guarded)`;
+  if (feature.unavailableIn) return `${feature.feature} (unavailable in ${feature.unavailableIn.map(browserName).join(', ')})`;
+  return feature.feature;
+};
+
+// 'Safari 13.1+: Optional Chaining (4, 9); without it 10.1+'. The full ranking is in the JSON output.
+const formatMinimumReason = (analysis: AnalysisResult, browser: string) => {
+  const reason = analysis.minimumVersionReasons[browser];
+  if (!reason || reason.drivers.length === 0) return null;
+  const drivers = reason.drivers.map(driver => `${driver.feature} (${formatLines(driver.locations.map(location =>
+    location.file ? `${location.file}:${location.line}` : `${location.line}`
+  ), driver.omittedOccurrences)})`);
+  let line = `${browserName(browser)} ${formatSupport(analysis.minimumVersions[browser])}: ${drivers.join(', ')}`;
+  if (reason.reductions.length > 0) {
+    line += `; without ${reason.drivers.length > 1 ? 'them' : 'it'} ${formatSupport(reason.reductions[0].minimum)}`;
+  }
+  return line;
+};
+
+// '⚠ Syntax error at 2:9: Unexpected token', with the likely cause under it
+const formatParseErrors = (errors: ParseError[], indent: string) => errors.flatMap(error => [
+  `${indent}⚠ Syntax error at ${error.line}:${error.column}: ${error.message}`,
+  ...(error.hint ? [`${indent}    ${error.hint}`] : [])
+]);
+
+const formatRemediation = (remediation: Remediation) => {
+  if (remediation.strategy === 'none') return 'can\'t be polyfilled';
+  return remediation.module ? `${remediation.strategy} with ${remediation.module}` : remediation.strategy;
+};
+
+const renderAnalysis = (analysis: AnalysisResult): string[] => {
+  const parseErrors = formatParseErrors(analysis.parseErrors ?? [], '  ');
+  if (analysis.features.length === 0) {
+    return [...parseErrors, '  No features detected'];
+  }
+
+  const browsers = analysis.browsers;
+  const rows = [
+    ['Feature', ...browsers.map(browserName), 'Locations'],
+    ...analysis.features.map(feature => [
+      featureLabel(feature),
+      ...browsers.map(browser => formatSupport(feature.support[browser])),
+      formatLocations(feature.codeSnippets, feature.omittedOccurrences)
+    ]),
+    ['Minimum', ...browsers.map(browser => formatSupport(analysis.minimumVersions[browser])), '']
+  ];
+  const lines = [...parseErrors, ...renderRows(rows, '  ')];
+
+  const reasons = browsers.map(browser => formatMinimumReason(analysis, browser)).filter(Boolean);
+  if (reasons.length > 0) {
+    lines.push('  Minimum set by:');
+    reasons.forEach(reason => lines.push(`      ${reason}`));
+  }
+
+  if (analysis.build) {
+    const { tool, targets, handled, unchanged } = analysis.build;
+    const built = targets ? `${tool}, targets ${targets}` : tool;
+    lines.push(`  Build (${built}): ${handled.length} feature(s) handled, ${unchanged.length} reach the browser unchanged`);
+  }
+
+  if (analysis.targets) {
+    const { browsers: targetBrowsers, unknownTargets } = analysis.targets;
+    if (analysis.targets.passed) {
+      const known = targetBrowsers.length - unknownTargets.length;
+      lines.push(unknownTargets.length > 0
+        ? `  ✓ Supported by all ${known} target browsers with support data`
+        : `  ✓ Supported by all ${targetBrowsers.length} target browsers`);
+    } else {
+      lines.push(`  ✗ ${analysis.targets.failingFeatures} feature(s) unsupported by target browsers`);
+      analysis.features
+        .filter(feature => feature.unsupportedTargets && feature.unsupportedTargets.length > 0)
+        .forEach(feature => {
+          const fix = feature.remediation ? ` (${formatRemediation(feature.remediation)})` : '';
+          lines.push(`      ${feature.feature}: ${feature.unsupportedTargets!.join(', ')}${fix}`);
+        });
+    }
+    if (unknownTargets.length > 0) {
+      lines.push(`  ? No support data for some features in: ${unknownTargets.join(', ')}`);
+    }
+  }
+  return lines;
+};
+
+const targetSummary = (analyses: AnalysisResult[]) => {
+  const targets = analyses.find(analysis => analysis.targets)?.targets;
+  if (!targets) return '';
+  const passed = analyses.every(analysis => !analysis.targets || analysis.targets.passed);
+  const unknown = new Set(analyses.flatMap(analysis => analysis.targets?.unknownTargets ?? [])).size;
+  const caveat = unknown > 0 ? `, ${unknown} target(s) without support data` : '';
+  return passed ? ` — all targets met (${targets.query}${caveat})` : ` — targets violated (${targets.query}${caveat})`;
+};
+
+// The tsconfig's lib warnings are the same for every file, so they're listed once
+const typescriptWarnings = (analyses: AnalysisResult[]): string[] => {
+  const typescript = analyses.find(analysis => analysis.typescript)?.typescript;
+  if (!typescript || typescript.libWarnings.length === 0) return [];
+  return [
+    `tsconfig lib declares APIs the targets lack (target ${typescript.target}):`,
+    ...typescript.libWarnings.map(warning => `    ${warning.feature} (${warning.lib}): ${warning.unsupportedTargets.join(', ')}`)
+  ];
+};
+
+// Says which tsconfig was picked up, and whether tsc compiles the code or only type-checks it
+export function formatTsconfigNote(file: string, options: TypeScriptOptions): string {
+  if (!emitsJavaScript(options)) {
+    const option = options.noEmit ? 'noEmit' : 'emitDeclarationOnly';
+    return `Using ${file} (found automatically): it sets ${option}, so tsc doesn't compile the code and only its lib setting is checked`;
+  }
+  return `Using ${file} (found automatically): syntax tsc compiles for target ${normalizeTarget(options.target)} isn't counted; pass --tsconfig to use another`;
+}
+
+export const hasTargetFailures = (reports: FileReport[]) =>
+  reports.some(report => report.analysis?.targets && !report.analysis.targets.passed);
+
+// Files analyzed past syntax errors, so features may be missing from their results
+export const hasParseErrors = (reports: FileReport[]) => reports.some(report => report.analysis?.parseErrors);
+
+export function formatTable(reports: FileReport[], cwd: string, tsconfigNote?: string): string {
+  const lines: string[] = tsconfigNote ? [tsconfigNote, ''] : [];
+
+  reports.forEach(report => {
+    lines.push(path.relative(cwd, report.path) || report.path);
+    lines.push(...(report.error ? [`  ✗ ${report.error}`] : renderAnalysis(report.analysis!)), '');
+  });
+
+  const analyses = reports.filter(report => report.analysis).map(report => report.analysis!);
+  const failed = reports.length - analyses.length;
+  const withErrors = analyses.filter(analysis => analysis.parseErrors).length;
+  let summary = `Analyzed ${analyses.length} file(s)`;
+  if (withErrors > 0) summary += `, ${withErrors} with syntax errors`;
+  if (failed > 0) summary += `, ${failed} failed to parse`;
+  summary += targetSummary(analyses);
+  if (analyses.length > 0) summary += `\nSupport data: caniuse-lite ${analyses[0].caniuseVersion}`;
+  lines.push(summary, ...typescriptWarnings(analyses));
+
+  return lines.join('\n');
+}
+
+export function formatProjectTable(project: AnalysisResult, tsconfigNote?: string): string {
+  const files = project.files ?? [];
+  const lines = [
+    ...(tsconfigNote ? [tsconfigNote, ''] : []),
+    `Project (${files.length} module(s))`, ...renderAnalysis(project), '', 'Modules:'
+  ];
+
+  files.forEach(file => {
+    if (file.error) {
+      lines.push(`  ${file.path} — ✗ ${file.error}`);
+      return;
+    }
+    let line = `  ${file.path} — ${file.analysis!.features.length} feature(s)`;
+    if (file.unresolvedImports) line += `, unresolved: ${file.unresolvedImports.join(', ')}`;
+    lines.push(line, ...formatParseErrors(file.analysis!.parseErrors ?? [], '      '));
+  });
+
+  const failed = files.filter(file => file.error).length;
+  const withErrors = files.filter(file => file.analysis?.parseErrors).length;
+  let summary = `\nAnalyzed ${files.length - failed} module(s)`;
+  if (withErrors > 0) summary += `, ${withErrors} with syntax errors`;
+  if (failed > 0) summary += `, ${failed} failed to parse`;
+  summary += targetSummary([project]);
+  summary += `\nSupport data: caniuse-lite ${project.caniuseVersion}`;
+  lines.push(summary, ...typescriptWarnings([project]));
+
+  return lines.join('\n');
+}
+
+export function formatJson(reports: FileReport[], cwd: string, tsconfigNote?: string): string {
+  return JSON.stringify({
+    passed: !hasTargetFailures(reports) && !hasParseErrors(reports) && reports.every(report => !report.error),
+    ...(tsconfigNote ? { notes: [tsconfigNote] } : {}),
+    files: reports.map(report => ({ ...report, path: path.relative(cwd, report.path) || report.path }))
+  }, null, 2);
+}
+
+export function formatProjectJson(project: AnalysisResult, tsconfigNote?: string): string {
+  const files = project.files ?? [];
+  return JSON.stringify({
+    passed: (!project.targets || project.targets.passed) && !hasParseErrors(files) && files.every(file => !file.error),
+    ...(tsconfigNote ? { notes: [tsconfigNote] } : {}),
+    project
+  }, null, 2);
+}
@@ -3,3 +3,4 @@
 declare module '@babel/parser';
 declare module '@babel/traverse';
 declare module '@babel/types';
+declare module '@babel/standalone';
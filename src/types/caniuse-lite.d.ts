@@ -0,0 +1,33 @@
+// Type declarations for the parts of caniuse-lite the analyzer imports directly
+
+declare module 'caniuse-lite/dist/unpacker/feature' {
+  interface UnpackedFeature {
+    status: string;
+    title: string;
+    shown: boolean;
+    stats: Record<string, Record<string, string>>;
+  }
+
+  export default function unpackFeature(packed: unknown): UnpackedFeature;
+}
+
+declare module 'caniuse-lite/dist/unpacker/agents' {
+  interface Agent {
+    browser: string;
+    prefix: string;
+    versions: (string | null)[];
+    release_date: Record<string, number | null>;
+    usage_global: Record<string, number>;
+  }
+
+  export const agents: Record<string, Agent | undefined>;
+}
+
+declare module 'caniuse-lite/data/features/*' {
+  const packed: unknown;
+  export default packed;
+}
+
+declare module 'caniuse-lite/dist/unpacker/region' {
+  export default function unpackRegion(packed: unknown): Record<string, Record<string, number | null>>;
+}